@@ -23,30 +23,45 @@ const esbuildProblemMatcherPlugin = {
 	},
 };
 
+const sharedOptions = {
+	bundle: true,
+	format: 'cjs',
+	minify: production,
+	sourcemap: !production,
+	sourcesContent: false,
+	platform: 'node',
+	logLevel: 'silent',
+	plugins: [
+		/* add to the end of plugins array */
+		esbuildProblemMatcherPlugin,
+	],
+};
+
 async function main() {
-	const ctx = await esbuild.context({
-		entryPoints: [
-			'src/extension.ts'
-		],
-		bundle: true,
-		format: 'cjs',
-		minify: production,
-		sourcemap: !production,
-		sourcesContent: false,
-		platform: 'node',
-		outfile: 'dist/extension.js',
-		external: ['vscode'],
-		logLevel: 'silent',
-		plugins: [
-			/* add to the end of plugins array */
-			esbuildProblemMatcherPlugin,
-		],
-	});
+	const contexts = await Promise.all([
+		esbuild.context({
+			...sharedOptions,
+			entryPoints: [
+				'src/extension.ts'
+			],
+			outfile: 'dist/extension.js',
+			external: ['vscode'],
+		}),
+		// Headless analyzer for CI, run with node outside VS Code
+		esbuild.context({
+			...sharedOptions,
+			entryPoints: [
+				'src/cli.ts'
+			],
+			outfile: 'dist/cli.js',
+			banner: { js: '#!/usr/bin/env node' },
+		}),
+	]);
 	if (watch) {
-		await ctx.watch();
+		await Promise.all(contexts.map(ctx => ctx.watch()));
 	} else {
-		await ctx.rebuild();
-		await ctx.dispose();
+		await Promise.all(contexts.map(ctx => ctx.rebuild()));
+		await Promise.all(contexts.map(ctx => ctx.dispose()));
 	}
 }
 
@@ -0,0 +1,50 @@
+import * as vscode from 'vscode';
+import { FileMetrics } from './fileAnalyzer';
+import { GardenProvider, GardenSummary } from './gardenProvider';
+import { MetricProvider, ProviderRegistry, RuleProvider } from './providerRegistry';
+
+export { FileIssue, FileMetrics, IssueSeverity } from './fileAnalyzer';
+export { GardenSummary } from './gardenProvider';
+export { MetricProvider, RuleProvider, RuleResult } from './providerRegistry';
+
+export interface GardenUpdateEvent {
+  summary: GardenSummary;
+  files: { uri: vscode.Uri; metrics: FileMetrics }[];
+}
+
+/**
+ * What `activate()` returns to other extensions:
+ * `vscode.extensions.getExtension<VerdantViewApi>('sitharaj.verdantview')?.exports`.
+ */
+export interface VerdantViewApi {
+  // Bumped on breaking changes to this interface
+  readonly version: 1;
+  registerMetricProvider(provider: MetricProvider): vscode.Disposable;
+  registerRuleProvider(provider: RuleProvider): vscode.Disposable;
+  // Fires after a full analysis and after changed files are re-analyzed
+  readonly onDidUpdateGarden: vscode.Event<GardenUpdateEvent>;
+  getFileMetrics(uri: vscode.Uri): Promise<FileMetrics | undefined>;
+}
+
+export function createApi(
+  provider: GardenProvider,
+  registry: ProviderRegistry,
+  subscriptions: vscode.Disposable[]
+): VerdantViewApi {
+  const onDidUpdateGarden = new vscode.EventEmitter<GardenUpdateEvent>();
+  subscriptions.push(onDidUpdateGarden, provider.onDidChangeMetrics(async () => {
+    const plants = await provider.getAllPlants();
+    onDidUpdateGarden.fire({
+      summary: await provider.getGardenSummary(),
+      files: plants.map(plant => ({ uri: plant.uri, metrics: plant.metrics }))
+    });
+  }));
+
+  return {
+    version: 1,
+    registerMetricProvider: metricProvider => registry.registerMetricProvider(metricProvider),
+    registerRuleProvider: ruleProvider => registry.registerRuleProvider(ruleProvider),
+    onDidUpdateGarden: onDidUpdateGarden.event,
+    getFileMetrics: async uri => (await provider.getPlant(uri))?.metrics
+  };
+}
@@ -0,0 +1,323 @@
+import { ComplexityAnalyzer, ComplexityReport, FunctionMetrics } from './complexityAnalyzer';
+import { SourceSyntax, SourceTokenizer, Token } from './sourceTokenizer';
+
+interface BraceLanguage {
+  syntax: SourceSyntax;
+  // Keywords that each add a decision point
+  decisionKeywords: string[];
+  // Keywords whose `{` block is one nesting level deeper
+  nestingKeywords: string[];
+  // Keywords that declare a type whose functions are named `Type.function`
+  containerKeywords: string[];
+  // Name and line of the function whose body the `{` after `header` opens
+  findFunction(header: Token[]): { name: string; line: number } | undefined;
+  // `if (x) return;` is allowed, so `;` ends a pending nesting keyword
+  bracelessBodies?: boolean;
+  // Go ends statements at line breaks instead of `;`
+  newlineEndsStatement?: boolean;
+  ternary?: boolean;
+  // Rust `match` arms, written `pattern => value`
+  matchArms?: boolean;
+}
+
+interface Unit {
+  name: string;
+  startLine: number;
+  complexity: number;
+  nestingDepth: number;
+  depth: number;
+}
+
+interface Block {
+  kind: 'function' | 'nesting' | 'plain';
+  container?: string;
+  parenDepth: number;
+}
+
+// Control-flow keywords that can precede `(` without being a function name
+const C_CONTROL = new Set(['if', 'for', 'while', 'switch', 'catch', 'return', 'sizeof', 'synchronized', 'try']);
+
+// Keywords after which `&&` and `||` are not binary operators, e.g. Rust's `move || {}` closures
+const PREFIX_KEYWORDS = new Set(['return', 'move', 'mut', 'in', 'case', 'yield']);
+
+/**
+ * Cyclomatic complexity for C-family languages, Go and Rust, found by tracking braces over a token stream.
+ * Function bodies are recognised from the tokens before their `{`, so no full parser is needed.
+ */
+export class BraceAnalyzer {
+  static readonly C = new BraceAnalyzer({
+    syntax: { lineComment: '//', blockComment: ['/*', '*/'], charLiterals: true, preprocessor: true },
+    decisionKeywords: ['if', 'for', 'while', 'case', 'catch'],
+    nestingKeywords: ['if', 'else', 'for', 'while', 'do', 'switch', 'try', 'catch'],
+    containerKeywords: ['class', 'struct'],
+    findFunction: header => BraceAnalyzer.findCallable(header),
+    bracelessBodies: true,
+    ternary: true
+  });
+
+  static readonly JAVA = new BraceAnalyzer({
+    syntax: { lineComment: '//', blockComment: ['/*', '*/'], charLiterals: true, multilineStrings: ['"""'] },
+    decisionKeywords: ['if', 'for', 'while', 'case', 'catch'],
+    nestingKeywords: ['if', 'else', 'for', 'while', 'do', 'switch', 'try', 'catch', 'finally'],
+    containerKeywords: ['class', 'interface', 'enum', 'record'],
+    findFunction: header => BraceAnalyzer.findCallable(header),
+    bracelessBodies: true,
+    ternary: true
+  });
+
+  static readonly GO = new BraceAnalyzer({
+    syntax: { lineComment: '//', blockComment: ['/*', '*/'], charLiterals: true, multilineStrings: ['`'] },
+    // `case` covers both `switch` and `select`
+    decisionKeywords: ['if', 'for', 'case'],
+    nestingKeywords: ['if', 'else', 'for', 'switch', 'select'],
+    containerKeywords: [],
+    findFunction: header => BraceAnalyzer.findGoFunction(header),
+    newlineEndsStatement: true
+  });
+
+  static readonly RUST = new BraceAnalyzer({
+    syntax: { lineComment: '//', blockComment: ['/*', '*/'], nestedComments: true, charLiterals: true, rawStrings: true },
+    decisionKeywords: ['if', 'while', 'for'],
+    nestingKeywords: ['if', 'else', 'while', 'for', 'loop', 'match'],
+    containerKeywords: ['impl', 'trait'],
+    findFunction: header => {
+      const index = header.findIndex(token => token.text === 'fn');
+      const name = header[index + 1];
+      return index >= 0 && name?.kind === 'word' ? { name: name.text, line: header[index].line } : undefined;
+    },
+    matchArms: true
+  });
+
+  private decisionKeywords: Set<string>;
+  private nestingKeywords: Set<string>;
+  private containerKeywords: Set<string>;
+
+  private constructor(private language: BraceLanguage) {
+    this.decisionKeywords = new Set(language.decisionKeywords);
+    this.nestingKeywords = new Set(language.nestingKeywords);
+    this.containerKeywords = new Set(language.containerKeywords);
+  }
+
+  get syntax(): SourceSyntax {
+    return this.language.syntax;
+  }
+
+  analyze(content: string): ComplexityReport {
+    const tokens = SourceTokenizer.tokenize(content, this.language.syntax);
+    const functions: FunctionMetrics[] = [];
+    const topLevel: Unit = { name: '(top level)', startLine: 1, complexity: 1, nestingDepth: 0, depth: 0 };
+    const units = [topLevel];
+    const blocks: Block[] = [];
+
+    // Tokens of the current statement, which decide what the next `{` opens
+    let header: Token[] = [];
+    let parenDepth = 0;
+    let pendingNesting = false;
+
+    tokens.forEach((token, index) => {
+      const unit = units[units.length - 1];
+      const previous = tokens[index - 1];
+
+      if (this.language.newlineEndsStatement && previous && parenDepth === 0 &&
+          token.line > SourceTokenizer.getEndLine(previous) && this.endsOperand(previous)) {
+        header = [];
+      }
+
+      switch (token.text) {
+        case '{': {
+          const block: Block = { kind: 'plain', parenDepth };
+          const containerIndex = header.findIndex(headerToken => this.containerKeywords.has(headerToken.text));
+          let fn = !pendingNesting && parenDepth === 0 ? this.language.findFunction(header) : undefined;
+          // Java's `record Point(int x, int y) {` declares a type, C's `struct point make(int x) {` a function
+          if (fn && containerIndex >= 0 && header[containerIndex + 1]?.text === fn.name) {
+            fn = undefined;
+          }
+          const isContainer = !fn && containerIndex >= 0;
+
+          if (pendingNesting) {
+            block.kind = 'nesting';
+            unit.depth++;
+            unit.nestingDepth = Math.max(unit.nestingDepth, unit.depth);
+          } else if (fn) {
+            block.kind = 'function';
+            const container = this.getEnclosingContainer(blocks);
+            const name = fn.name.includes('.') || !container ? fn.name : `${container}.${fn.name}`;
+            units.push({ name, startLine: fn.line, complexity: 1, nestingDepth: 0, depth: 0 });
+          } else if (isContainer) {
+            block.container = this.getContainerName(header);
+          }
+
+          blocks.push(block);
+          header = [];
+          parenDepth = 0;
+          pendingNesting = false;
+          break;
+        }
+        case '}': {
+          const block = blocks.pop();
+          if (block?.kind === 'function' && units.length > 1) {
+            const fn = units.pop()!;
+            functions.push({
+              name: fn.name,
+              startLine: fn.startLine,
+              endLine: token.line,
+              length: token.line - fn.startLine + 1,
+              complexity: fn.complexity,
+              nestingDepth: fn.nestingDepth
+            });
+          } else if (block?.kind === 'nesting') {
+            unit.depth--;
+          }
+          parenDepth = block?.parenDepth ?? 0;
+          header = [];
+          break;
+        }
+        case ';':
+          if (parenDepth === 0) {
+            header = [];
+            pendingNesting = pendingNesting && !this.language.bracelessBodies;
+          } else {
+            header.push(token);
+          }
+          break;
+        default: {
+          // Keywords in type declarations are not control flow, e.g. Rust's `impl Trait for Type`
+          const declaresType = header.some(headerToken => this.containerKeywords.has(headerToken.text));
+
+          if (token.text === '(' || token.text === '[') {
+            parenDepth++;
+          } else if (token.text === ')' || token.text === ']') {
+            parenDepth = Math.max(0, parenDepth - 1);
+          } else if (token.text === '=>') {
+            // A match guard's `if` has no block of its own
+            pendingNesting = false;
+          } else if (token.kind === 'word' && this.nestingKeywords.has(token.text) && !declaresType) {
+            pendingNesting = true;
+          }
+          header.push(token);
+          unit.complexity += declaresType ? 0 : this.decisionPoints(tokens, index);
+        }
+      }
+    });
+
+    return ComplexityAnalyzer.createReport(functions, topLevel, content.split('\n').length);
+  }
+
+  private decisionPoints(tokens: Token[], index: number): number {
+    const token = tokens[index];
+    switch (token.kind) {
+      case 'string':
+        return 0;
+      case 'word':
+        return this.decisionKeywords.has(token.text) ? 1 : 0;
+    }
+
+    switch (token.text) {
+      case '&&':
+      case '||':
+        // Only as binary operators, not Rust's `&&x` references or `|| x` closures
+        return index > 0 && this.endsOperand(tokens[index - 1]) ? 1 : 0;
+      case '?':
+        // Not Java's `List<?>` wildcards
+        return this.language.ternary && !['>', ',', 'extends', 'super'].includes(tokens[index + 1]?.text) ? 1 : 0;
+      case '=>':
+        // Every arm except the `_` catch-all, like `case` without `default`
+        return this.language.matchArms && tokens[index - 1]?.text !== '_' ? 1 : 0;
+      default:
+        return 0;
+    }
+  }
+
+  private endsOperand(token: Token): boolean {
+    return token.kind === 'string' ||
+           (token.kind === 'word' && !PREFIX_KEYWORDS.has(token.text)) ||
+           token.text === ')' || token.text === ']' || token.text === '}';
+  }
+
+  // Innermost type around a function, unless the function is nested in another function
+  private getEnclosingContainer(blocks: Block[]): string | undefined {
+    for (let i = blocks.length - 1; i >= 0; i--) {
+      if (blocks[i].kind === 'function') {
+        return undefined;
+      }
+      if (blocks[i].container) {
+        return blocks[i].container;
+      }
+    }
+    return undefined;
+  }
+
+  private getContainerName(header: Token[]): string | undefined {
+    const index = header.findIndex(token => this.containerKeywords.has(token.text));
+
+    // Rust: `impl Trait for Type` names the type after `for`; `impl<T> Type<T>` skips the generics
+    if (header[index].text === 'impl') {
+      const forIndex = header.findIndex(token => token.text === 'for');
+      let i = forIndex > index ? forIndex + 1 : index + 1;
+      for (let angle = 0; i < header.length && (angle > 0 || header[i].text === '<'); i++) {
+        angle += header[i].text === '<' ? 1 : header[i].text === '>' ? -1 : 0;
+      }
+      return header.slice(i).find(token => token.kind === 'word')?.text;
+    }
+
+    const name = header[index + 1];
+    return name?.kind === 'word' ? name.text : undefined;
+  }
+
+  // C, C++ and Java: `name(...)` followed only by modifiers such as `const` or `throws X`
+  private static findCallable(header: Token[]): { name: string; line: number } | undefined {
+    let depth = 0;
+    for (let i = 0; i < header.length; i++) {
+      const token = header[i];
+      if (token.text === '(') {
+        const before = header[i - 1];
+        if (depth === 0 && before?.kind === 'word' && !C_CONTROL.has(before.text) &&
+            header[i - 2]?.text !== '@' && header[i - 2]?.text !== 'new') {
+          const rest = header.slice(i);
+          if (rest.some(restToken => restToken.text === '=')) {
+            return undefined;
+          }
+          // `Type::method` definitions and destructors
+          const qualifier = header[i - 2]?.text === '::' ? header[i - 3] : undefined;
+          const name = header[i - 2]?.text === '~' ? `~${before.text}` : before.text;
+          return { name: qualifier ? `${qualifier.text}.${name}` : name, line: header[0].line };
+        }
+        depth++;
+      } else if (token.text === ')') {
+        depth--;
+      } else if (token.text === '=' && depth === 0) {
+        return undefined;
+      }
+    }
+    return undefined;
+  }
+
+  // `func name(...)`, `func (r *Type) name(...)` or a `func(...)` literal
+  private static findGoFunction(header: Token[]): { name: string; line: number } | undefined {
+    const index = header.findIndex(token => token.text === 'func');
+    if (index < 0) {
+      return undefined;
+    }
+
+    const line = header[index].line;
+    const next = header[index + 1];
+    if (next?.kind === 'word') {
+      return { name: next.text, line };
+    }
+
+    const close = header.findIndex((token, i) => i > index && token.text === ')');
+    const name = header[close + 1];
+    if (close > 0 && name?.kind === 'word' && header[close + 2]?.text === '(') {
+      // The receiver's type is its last word outside type parameters
+      let depth = 0;
+      const receiver = header.slice(index + 2, close).filter(token => {
+        depth += token.text === '[' ? 1 : token.text === ']' ? -1 : 0;
+        return depth === 0 && token.kind === 'word';
+      });
+      const type = receiver[receiver.length - 1]?.text;
+      return { name: type ? `${type}.${name.text}` : name.text, line };
+    }
+
+    return { name: '(anonymous)', line };
+  }
+}
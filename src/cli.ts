@@ -0,0 +1,277 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseArgs } from 'util';
+import { minimatch } from 'minimatch';
+import { ContentMetrics, FileAnalyzer, FileStamp } from './fileAnalyzer';
+import { DuplicateDetector } from './duplicateDetector';
+import { DependencyGraph } from './dependencyGraph';
+import { FolderConfigs } from './folderConfig';
+import { GitHistory } from './gitHistory';
+import { ReportEntry, ReportFormat, ReportGenerator } from './reportGenerator';
+import { Baseline, HealthBaseline } from './healthBaseline';
+import { CliConfig, GateResult, evaluateGates, loadCliConfig } from './cliConfig';
+
+const USAGE = `Usage: verdantview [directory] [options]
+
+Analyzes a directory the way the Verdant Garden view does and exits
+with status 1 when a health gate fails.
+
+Options:
+  -c, --config <file>       Config file (default: <directory>/.verdantview.json)
+  -f, --format <format>     Report format: markdown, json, csv, html, sarif
+  -o, --output <file>       Write the report to a file instead of stdout
+      --min-health <n>      Fail when fewer than n% of files are healthy
+      --max-critical <n>    Fail when more than n files are critical
+      --baseline <file>     Baseline or JSON report to compare against; fails on
+                            new critical files and reports regressions
+      --write-baseline <file>
+                            Write the current health of every file as a baseline
+  -h, --help                Show this help`;
+
+const REPORT_FORMATS: ReportFormat[] = ['markdown', 'json', 'csv', 'html', 'sarif'];
+
+class UsageError extends Error {}
+
+async function main(argv: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      config: { type: 'string', short: 'c' },
+      format: { type: 'string', short: 'f' },
+      output: { type: 'string', short: 'o' },
+      'min-health': { type: 'string' },
+      'max-critical': { type: 'string' },
+      baseline: { type: 'string' },
+      'write-baseline': { type: 'string' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (positionals.length > 1) {
+    throw new UsageError('Only one directory can be analyzed at a time');
+  }
+
+  const root = path.resolve(positionals[0] ?? '.');
+  if (!fs.statSync(root, { throwIfNoEntry: false })?.isDirectory()) {
+    throw new UsageError(`Not a directory: ${root}`);
+  }
+
+  const format = values.format as ReportFormat | undefined;
+  if (format && !REPORT_FORMATS.includes(format)) {
+    throw new UsageError(`Unknown format '${format}', expected one of ${REPORT_FORMATS.join(', ')}`);
+  }
+
+  const config = loadCliConfig(root, values.config);
+  if (values['min-health'] !== undefined) {
+    config.gates.minHealth = parseNumber('--min-health', values['min-health']);
+  }
+  if (values['max-critical'] !== undefined) {
+    config.gates.maxCritical = parseNumber('--max-critical', values['max-critical']);
+  }
+
+  let baseline: Baseline | undefined;
+  if (values.baseline) {
+    baseline = HealthBaseline.parse(fs.readFileSync(values.baseline, 'utf8'));
+    config.gates.noNewCritical = true;
+  }
+
+  const started = Date.now();
+  const entries = await analyzeDirectory(root, config);
+  if (baseline) {
+    entries.forEach(entry => entry.change = HealthBaseline.compare(entry.metrics, baseline!.get(entry.path)));
+  }
+  const results = evaluateGates(entries, config.gates, baseline);
+
+  // Keep stdout clean for the report when it is not written to a file
+  const log = format && !values.output ? console.error : console.log;
+
+  if (format) {
+    const report = ReportGenerator.generate(format, entries);
+    if (values.output) {
+      fs.writeFileSync(values.output, report);
+      log(`Report written to ${values.output}`);
+    } else {
+      process.stdout.write(report + '\n');
+    }
+  }
+
+  if (values['write-baseline']) {
+    fs.writeFileSync(values['write-baseline'], HealthBaseline.create(entries));
+    log(`Baseline written to ${values['write-baseline']}`);
+  }
+
+  printSummary(log, entries, Date.now() - started);
+  printGates(log, results);
+
+  return results.every(result => result.passed) ? 0 : 1;
+}
+
+async function analyzeDirectory(root: string, config: CliConfig): Promise<ReportEntry[]> {
+  const { files: found, configFiles } = await findFiles(root, config.includePatterns, config.excludePatterns);
+  const folderConfigs = new FolderConfigs();
+  for (const configFile of configFiles) {
+    folderConfigs.set(configFile, await fs.promises.readFile(path.join(root, configFile), 'utf8'));
+  }
+  const files = found.filter(file => !folderConfigs.isExcluded(file));
+  const git = await GitHistory.load(root, config.gitHistoryDays);
+  const duplicates = config.enableDuplicateDetection
+    ? new DuplicateDetector(Math.max(10, config.duplicationMinTokens))
+    : undefined;
+  const dependencyGraph = config.enableDependencyGraph ? new DependencyGraph() : undefined;
+  const analyzed = new Map<string, { stat: FileStamp; content: ContentMetrics }>();
+  const entries: ReportEntry[] = [];
+  let nextIndex = 0;
+
+  const analyzeNext = async (): Promise<void> => {
+    while (nextIndex < files.length) {
+      const relativePath = files[nextIndex++];
+      const filePath = path.join(root, relativePath);
+      try {
+        const stat = await fs.promises.stat(filePath);
+        const data = await fs.promises.readFile(filePath);
+        const content = FileAnalyzer.analyzeContent(data, filePath);
+        analyzed.set(relativePath, { stat: { mtime: stat.mtimeMs, size: stat.size }, content });
+        if (content.kind === 'binary') {
+          continue;
+        }
+
+        // Generated code is duplicated by nature, but its imports still keep other files in use
+        const type = FileAnalyzer.getFileType(path.extname(filePath).toLowerCase(), path.basename(filePath).toLowerCase());
+        const text = data.toString('utf8');
+        if (content.kind === 'source') {
+          duplicates?.setFile(relativePath, text, type);
+        }
+        dependencyGraph?.setFile(relativePath, text, type);
+      } catch (error) {
+        entries.push({ path: relativePath, metrics: FileAnalyzer.createFailedMetrics(error) });
+      }
+    }
+  };
+
+  const concurrency = Math.max(1, config.analysisConcurrency);
+  await Promise.all(Array.from({ length: Math.min(concurrency, files.length) }, analyzeNext));
+
+  // Clones and imports span files, so health is assessed once every file has been read
+  const duplication = DuplicateDetector.summarize(duplicates?.findClones() ?? []);
+  const isEntryPoint = (file: string) => config.entryPoints.some(pattern => minimatch(file, pattern, { dot: true }));
+  const dependencies = dependencyGraph?.analyze(undefined, config.detectUnusedFiles ? isEntryPoint : undefined);
+  analyzed.forEach(({ stat, content }, relativePath) => {
+    const filePath = path.join(root, relativePath);
+    const settings = folderConfigs.resolve(relativePath, config.healthThresholds);
+    const metrics = FileAnalyzer.createMetrics(
+      filePath,
+      stat,
+      content,
+      git?.getMetrics(filePath),
+      settings.thresholds,
+      undefined,
+      { duplication: duplication.get(relativePath), dependencies: dependencies?.get(relativePath) },
+      settings.rules
+    );
+    if (settings.sources.length > 0) {
+      metrics.configFiles = settings.sources;
+    }
+    entries.push({ path: relativePath, metrics });
+  });
+
+  return entries.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+// Walks the tree with the same glob semantics as the extension, skipping excluded folders entirely.
+// Folder configs are collected whether or not the include patterns match them.
+async function findFiles(
+  root: string,
+  includePatterns: string[],
+  excludePatterns: string[]
+): Promise<{ files: string[]; configFiles: string[] }> {
+  const matches = (relativePath: string, patterns: string[]) =>
+    patterns.some(pattern => minimatch(relativePath, pattern, { dot: true }));
+  const files: string[] = [];
+  const configFiles: string[] = [];
+
+  const walk = async (relativeDir: string): Promise<void> => {
+    const entries = await fs.promises.readdir(path.join(root, relativeDir), { withFileTypes: true });
+    for (const entry of entries) {
+      const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        if (!matches(`${relativePath}/`, excludePatterns)) {
+          await walk(relativePath);
+        }
+      } else if (entry.isFile() && !matches(relativePath, excludePatterns)) {
+        if (matches(relativePath, includePatterns)) {
+          files.push(relativePath);
+        }
+        if (FolderConfigs.isConfigFile(relativePath)) {
+          configFiles.push(relativePath);
+        }
+      }
+    }
+  };
+
+  await walk('');
+  return { files, configFiles };
+}
+
+function printSummary(log: (message: string) => void, entries: ReportEntry[], elapsed: number): void {
+  const scored = entries.filter(entry => FileAnalyzer.isScored(entry.metrics));
+  const count = (health: string) => scored.filter(entry => entry.metrics.health === health).length;
+  const percentage = (value: number) => scored.length > 0 ? Math.round(value / scored.length * 100) : 0;
+  const healthy = count('healthy');
+  const warning = count('warning');
+  const critical = count('critical');
+  const averageComplexity = FileAnalyzer.getAverageComplexity(entries.map(entry => entry.metrics));
+
+  log(`🌱 Verdant Garden: ${entries.length} files analyzed in ${(elapsed / 1000).toFixed(1)}s`);
+  log(`   🌱 Healthy: ${healthy} (${percentage(healthy)}%)  ⚠️ Warning: ${warning} (${percentage(warning)}%)  🚨 Critical: ${critical} (${percentage(critical)}%)`);
+  log(`   🌀 Average complexity: ${averageComplexity.toFixed(1)}`);
+
+  entries
+    .filter(entry => entry.metrics.health === 'critical')
+    .forEach(entry => log(`   🚨 ${entry.path}: ${entry.metrics.issues.map(issue => issue.message).join('; ')}`));
+
+  const regressions = entries.filter(entry => entry.change?.regressed);
+  if (entries.some(entry => entry.change)) {
+    log(`   📉 Regressions since baseline: ${regressions.length}`);
+    regressions.forEach(entry => {
+      const delta = HealthBaseline.formatDelta(entry.change!.complexityDelta);
+      log(`      ${entry.path}: ${entry.change!.isNew ? 'new' : entry.metrics.health} C:${entry.metrics.complexity}${delta ? ` ${delta}` : ''}`);
+    });
+  }
+}
+
+function printGates(log: (message: string) => void, results: GateResult[]): void {
+  if (results.length === 0) {
+    return;
+  }
+
+  log('Gates:');
+  results.forEach(result => log(`   ${result.passed ? '✅' : '❌'} ${result.name} (${result.detail})`));
+}
+
+function parseNumber(option: string, value: string): number {
+  const number = Number(value);
+  if (value.trim() === '' || isNaN(number)) {
+    throw new UsageError(`${option} expects a number, got '${value}'`);
+  }
+  return number;
+}
+
+// Setting exitCode rather than exiting lets piped reports flush.
+// Usage and configuration errors exit with 2 so they are not mistaken for a failed gate.
+main(process.argv.slice(2)).then(
+  code => {
+    process.exitCode = code;
+  },
+  error => {
+    console.error(`verdantview: ${error instanceof Error ? error.message : error}`);
+    if (error instanceof UsageError || String(error?.code).startsWith('ERR_PARSE_ARGS')) {
+      console.error('Run verdantview --help for usage.');
+    }
+    process.exitCode = 2;
+  }
+);
@@ -0,0 +1,168 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { FileAnalyzer, HealthThresholds } from './fileAnalyzer';
+import { DependencyGraph } from './dependencyGraph';
+import { Baseline } from './healthBaseline';
+import { ReportEntry } from './reportGenerator';
+
+export interface HealthGates {
+  // Minimum share of healthy files, as a percentage
+  minHealth?: number;
+  maxCritical?: number;
+  // Fails when a file is critical now but was not in the baseline
+  noNewCritical?: boolean;
+}
+
+export interface CliConfig {
+  includePatterns: string[];
+  excludePatterns: string[];
+  healthThresholds: HealthThresholds;
+  gitHistoryDays: number;
+  analysisConcurrency: number;
+  enableDuplicateDetection: boolean;
+  duplicationMinTokens: number;
+  enableDependencyGraph: boolean;
+  detectUnusedFiles: boolean;
+  entryPoints: string[];
+  gates: HealthGates;
+}
+
+export interface GateResult {
+  name: string;
+  passed: boolean;
+  detail: string;
+}
+
+export const CONFIG_FILE_NAME = '.verdantview.json';
+
+const DEFAULT_CONFIG: CliConfig = {
+  includePatterns: ['**/*'],
+  excludePatterns: ['**/node_modules/**', '**/dist/**', '**/build/**', '**/.git/**', '**/coverage/**'],
+  healthThresholds: FileAnalyzer.DEFAULT_THRESHOLDS,
+  gitHistoryDays: 90,
+  analysisConcurrency: 8,
+  enableDuplicateDetection: true,
+  duplicationMinTokens: 50,
+  enableDependencyGraph: true,
+  detectUnusedFiles: true,
+  entryPoints: DependencyGraph.DEFAULT_ENTRY_POINTS,
+  gates: {}
+};
+
+/**
+ * Reads `verdantView.*` keys from .vscode/settings.json, then lets the dedicated config file
+ * (unprefixed keys plus a `gates` section) override them. Both files may contain comments.
+ */
+export function loadCliConfig(root: string, configPath?: string): CliConfig {
+  const config: CliConfig = { ...DEFAULT_CONFIG, gates: {} };
+
+  const settings = readJsonc(path.join(root, '.vscode', 'settings.json'), false);
+  Object.entries(settings).forEach(([key, value]) => {
+    if (key.startsWith('verdantView.')) {
+      assignSetting(config, key.slice('verdantView.'.length), value);
+    }
+  });
+
+  // An explicit config path must exist; the default one is optional
+  const dedicated = configPath
+    ? readJsonc(path.resolve(configPath), true)
+    : readJsonc(path.join(root, CONFIG_FILE_NAME), false);
+  Object.entries(dedicated).forEach(([key, value]) => assignSetting(config, key, value));
+
+  return config;
+}
+
+export function evaluateGates(entries: ReportEntry[], gates: HealthGates, baseline?: Baseline): GateResult[] {
+  const results: GateResult[] = [];
+  const critical = entries.filter(entry => entry.metrics.health === 'critical');
+
+  if (gates.minHealth !== undefined) {
+    const scored = entries.filter(entry => FileAnalyzer.isScored(entry.metrics));
+    const healthy = scored.filter(entry => entry.metrics.health === 'healthy').length;
+    const percentage = scored.length > 0 ? healthy / scored.length * 100 : 100;
+    results.push({
+      name: `health ≥ ${gates.minHealth}%`,
+      passed: percentage >= gates.minHealth,
+      detail: `${Math.floor(percentage * 10) / 10}% healthy`
+    });
+  }
+
+  if (gates.maxCritical !== undefined) {
+    results.push({
+      name: `critical files ≤ ${gates.maxCritical}`,
+      passed: critical.length <= gates.maxCritical,
+      detail: `${critical.length} critical`
+    });
+  }
+
+  if (gates.noNewCritical) {
+    if (!baseline) {
+      results.push({ name: 'no new critical files', passed: false, detail: 'no baseline given' });
+    } else {
+      const added = critical.filter(entry => baseline.get(entry.path)?.health !== 'critical').map(entry => entry.path);
+      results.push({
+        name: 'no new critical files',
+        passed: added.length === 0,
+        detail: added.length === 0 ? 'none' : `${added.length} new: ${added.join(', ')}`
+      });
+    }
+  }
+
+  return results;
+}
+
+function assignSetting(config: CliConfig, key: string, value: unknown): void {
+  switch (key) {
+    case 'includePatterns':
+    case 'excludePatterns':
+    case 'entryPoints':
+      if (Array.isArray(value)) {
+        config[key] = value.map(String);
+      }
+      break;
+    case 'healthThresholds':
+      if (value && typeof value === 'object') {
+        config.healthThresholds = { ...config.healthThresholds, ...value };
+      }
+      break;
+    case 'gitHistoryDays':
+    case 'analysisConcurrency':
+    case 'duplicationMinTokens':
+      if (typeof value === 'number') {
+        config[key] = value;
+      }
+      break;
+    case 'enableDuplicateDetection':
+    case 'enableDependencyGraph':
+    case 'detectUnusedFiles':
+      if (typeof value === 'boolean') {
+        config[key] = value;
+      }
+      break;
+    case 'gates':
+      if (value && typeof value === 'object') {
+        config.gates = { ...config.gates, ...value };
+      }
+      break;
+  }
+}
+
+function readJsonc(filePath: string, required: boolean): { [key: string]: unknown } {
+  let text: string;
+  try {
+    text = fs.readFileSync(filePath, 'utf8');
+  } catch {
+    if (required) {
+      throw new Error(`Cannot read config file ${filePath}`);
+    }
+    return {};
+  }
+
+  // VS Code settings allow comments and trailing commas, which the TypeScript config parser accepts too
+  const { config, error } = ts.parseConfigFileTextToJson(filePath, text);
+  if (error) {
+    throw new Error(`Invalid JSON in ${filePath}: ${ts.flattenDiagnosticMessageText(error.messageText, '\n')}`);
+  }
+  return config ?? {};
+}
@@ -0,0 +1,170 @@
+import * as ts from 'typescript';
+
+export interface FunctionMetrics {
+  name: string;
+  startLine: number;
+  endLine: number;
+  length: number;
+  nestingDepth: number;
+  complexity: number;
+}
+
+export interface ComplexityReport {
+  functions: FunctionMetrics[];
+  max: number;
+  sum: number;
+}
+
+export class ComplexityAnalyzer {
+  private static readonly SCRIPT_KINDS = new Map([
+    ['.ts', ts.ScriptKind.TS],
+    ['.tsx', ts.ScriptKind.TSX],
+    ['.js', ts.ScriptKind.JS],
+    ['.jsx', ts.ScriptKind.JSX]
+  ]);
+
+  /**
+   * Computes McCabe cyclomatic complexity for every function in a TS/JS source file.
+   * Code at module level is reported as a separate `(top level)` unit when it branches.
+   */
+  static analyze(content: string, ext: string): ComplexityReport {
+    const scriptKind = this.SCRIPT_KINDS.get(ext) ?? ts.ScriptKind.TS;
+    const sourceFile = ts.createSourceFile('file' + ext, content, ts.ScriptTarget.Latest, true, scriptKind);
+
+    const functions: FunctionMetrics[] = [];
+    const topLevel = this.measure(sourceFile, sourceFile, functions);
+    const endLine = sourceFile.getLineAndCharacterOfPosition(sourceFile.getEnd()).line + 1;
+
+    return this.createReport(functions, topLevel, endLine);
+  }
+
+  // Shared by the language analyzers: adds the `(top level)` unit when module-level code branches
+  static createReport(
+    functions: FunctionMetrics[],
+    topLevel: { complexity: number; nestingDepth: number },
+    endLine: number
+  ): ComplexityReport {
+    if (topLevel.complexity > 1) {
+      functions.push({ name: '(top level)', startLine: 1, endLine, length: endLine, ...topLevel });
+    }
+    functions.sort((a, b) => a.startLine - b.startLine);
+
+    const max = functions.reduce((value, fn) => Math.max(value, fn.complexity), 1);
+    const sum = functions.reduce((value, fn) => value + fn.complexity, 0);
+
+    return { functions, max, sum: Math.max(1, sum) };
+  }
+
+  // Counts decision points and control-flow nesting inside `body`, recording nested functions as their own units
+  private static measure(
+    body: ts.Node,
+    sourceFile: ts.SourceFile,
+    functions: FunctionMetrics[]
+  ): { complexity: number; nestingDepth: number } {
+    let complexity = 1;
+    let nestingDepth = 0;
+
+    const visit = (node: ts.Node, depth: number): void => {
+      if (this.isFunction(node)) {
+        const startLine = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1;
+        const endLine = sourceFile.getLineAndCharacterOfPosition(node.getEnd()).line + 1;
+        functions.push({
+          name: this.getFunctionName(node, sourceFile),
+          startLine,
+          endLine,
+          length: endLine - startLine + 1,
+          ...this.measure(node, sourceFile, functions)
+        });
+        return;
+      }
+
+      complexity += this.decisionPoints(node);
+
+      const childDepth = this.isNestingStatement(node) ? depth + 1 : depth;
+      nestingDepth = Math.max(nestingDepth, childDepth);
+      ts.forEachChild(node, child => visit(child, childDepth));
+    };
+
+    ts.forEachChild(body, child => visit(child, 0));
+    return { complexity, nestingDepth };
+  }
+
+  private static isNestingStatement(node: ts.Node): boolean {
+    switch (node.kind) {
+      case ts.SyntaxKind.IfStatement:
+        // `else if` continues the chain rather than nesting deeper
+        return !(ts.isIfStatement(node.parent) && node.parent.elseStatement === node);
+      case ts.SyntaxKind.ForStatement:
+      case ts.SyntaxKind.ForInStatement:
+      case ts.SyntaxKind.ForOfStatement:
+      case ts.SyntaxKind.WhileStatement:
+      case ts.SyntaxKind.DoStatement:
+      case ts.SyntaxKind.SwitchStatement:
+      case ts.SyntaxKind.TryStatement:
+        return true;
+      default:
+        return false;
+    }
+  }
+
+  private static decisionPoints(node: ts.Node): number {
+    switch (node.kind) {
+      case ts.SyntaxKind.IfStatement:
+      case ts.SyntaxKind.ConditionalExpression:
+      case ts.SyntaxKind.ForStatement:
+      case ts.SyntaxKind.ForInStatement:
+      case ts.SyntaxKind.ForOfStatement:
+      case ts.SyntaxKind.WhileStatement:
+      case ts.SyntaxKind.DoStatement:
+      case ts.SyntaxKind.CatchClause:
+      case ts.SyntaxKind.CaseClause:
+        return 1;
+      case ts.SyntaxKind.BinaryExpression:
+        switch ((node as ts.BinaryExpression).operatorToken.kind) {
+          case ts.SyntaxKind.AmpersandAmpersandToken:
+          case ts.SyntaxKind.BarBarToken:
+          case ts.SyntaxKind.QuestionQuestionToken:
+          case ts.SyntaxKind.AmpersandAmpersandEqualsToken:
+          case ts.SyntaxKind.BarBarEqualsToken:
+          case ts.SyntaxKind.QuestionQuestionEqualsToken:
+            return 1;
+        }
+        return 0;
+      default:
+        return 0;
+    }
+  }
+
+  private static isFunction(node: ts.Node): node is ts.FunctionLikeDeclaration {
+    return ts.isFunctionDeclaration(node) ||
+           ts.isFunctionExpression(node) ||
+           ts.isArrowFunction(node) ||
+           ts.isMethodDeclaration(node) ||
+           ts.isConstructorDeclaration(node) ||
+           ts.isGetAccessorDeclaration(node) ||
+           ts.isSetAccessorDeclaration(node);
+  }
+
+  private static getFunctionName(node: ts.FunctionLikeDeclaration, sourceFile: ts.SourceFile): string {
+    let name: string | undefined;
+
+    if (ts.isConstructorDeclaration(node)) {
+      name = 'constructor';
+    } else if (node.name) {
+      name = node.name.getText(sourceFile);
+    } else if (ts.isVariableDeclaration(node.parent) || ts.isPropertyAssignment(node.parent) ||
+               ts.isPropertyDeclaration(node.parent)) {
+      name = node.parent.name.getText(sourceFile);
+    }
+
+    // Qualify class members with their class name
+    const container = ts.isClassLike(node.parent) ? node.parent
+      : ts.isPropertyDeclaration(node.parent) && ts.isClassLike(node.parent.parent) ? node.parent.parent
+      : undefined;
+    if (container?.name && name) {
+      return `${container.name.text}.${name}`;
+    }
+
+    return name ?? '(anonymous)';
+  }
+}
@@ -0,0 +1,56 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { FileAnalyzer } from './fileAnalyzer';
+import { LanguageAnalyzers } from './languageAnalyzers';
+
+export class ComplexityCodeLensProvider implements vscode.CodeLensProvider {
+  // VS Code language IDs of the file types LanguageAnalyzers has complexity analyzers for
+  static readonly SELECTOR: vscode.DocumentSelector = [
+    'typescript', 'typescriptreact', 'javascript', 'javascriptreact', 'python', 'go', 'rust', 'java', 'c', 'cpp'
+  ].map(language => ({ language, scheme: 'file' }));
+
+  private _onDidChangeCodeLenses = new vscode.EventEmitter<void>();
+  readonly onDidChangeCodeLenses = this._onDidChangeCodeLenses.event;
+
+  private configListener: vscode.Disposable;
+
+  constructor() {
+    this.configListener = vscode.workspace.onDidChangeConfiguration((e) => {
+      if (e.affectsConfiguration('verdantView')) {
+        this._onDidChangeCodeLenses.fire();
+      }
+    });
+  }
+
+  provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+    const config = vscode.workspace.getConfiguration('verdantView');
+    if (!config.get<boolean>('enableComplexityCodeLens', false)) {
+      return [];
+    }
+
+    const ext = path.extname(document.fileName).toLowerCase();
+    const type = FileAnalyzer.getFileType(ext, path.basename(document.fileName).toLowerCase());
+    if (!LanguageAnalyzers.supports(type)) {
+      return [];
+    }
+
+    const threshold = config.get<number>('codeLensComplexityThreshold', 10);
+    const report = LanguageAnalyzers.get(type).analyze(document.getText(), ext);
+
+    return report.functions
+      .filter(fn => fn.complexity >= threshold && fn.name !== '(top level)')
+      .map(fn => {
+        const range = new vscode.Range(fn.startLine - 1, 0, fn.startLine - 1, 0);
+        return new vscode.CodeLens(range, {
+          title: `🍂 complexity ${fn.complexity}`,
+          tooltip: `${fn.name}: ${fn.length} lines, nesting depth ${fn.nestingDepth}`,
+          command: ''
+        });
+      });
+  }
+
+  dispose(): void {
+    this.configListener.dispose();
+    this._onDidChangeCodeLenses.dispose();
+  }
+}
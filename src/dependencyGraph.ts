@@ -0,0 +1,440 @@
+import * as path from 'path';
+import * as ts from 'typescript';
+import { LanguageAnalyzers } from './languageAnalyzers';
+import { SourceTokenizer, Token } from './sourceTokenizer';
+
+export interface FileDependencies {
+  // Files of the workspace this file imports, and the files importing it
+  imports: string[];
+  importedBy: string[];
+  // Shortest import chain from this file back to itself, when it is part of a cycle
+  cycle?: string[];
+  // Not reachable from any entry point; only set when entry points were found
+  unused?: boolean;
+}
+
+// The parts of a tsconfig.json or jsconfig.json that affect module resolution, as graph paths
+interface ModuleResolution {
+  baseUrl?: string;
+  paths: [string, string[]][];
+  outDir?: string;
+  rootDir?: string;
+}
+
+/**
+ * Module graph of the workspace built from `import`/`require` statements and Python imports.
+ * Files are keyed by POSIX paths, absolute or relative to the workspace root, and only imports
+ * that resolve to another indexed file become edges; packages are left out.
+ */
+export class DependencyGraph {
+  private static readonly SCRIPT_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs'];
+
+  private static readonly MANIFESTS = ['package.json', 'tsconfig.json', 'jsconfig.json'];
+
+  // Files that are run rather than imported: tests, tool configs and scripts; package.json entries come on top
+  static readonly DEFAULT_ENTRY_POINTS = [
+    '**/*.test.*', '**/*.spec.*', '**/test/**', '**/tests/**', '**/__tests__/**', '**/*.config.*', '**/*.d.ts',
+    '**/__main__.py', '**/setup.py', '**/manage.py', '**/conftest.py', '**/test_*.py'
+  ];
+
+  private specifiers = new Map<string, { type: string; imports: string[] }>();
+  // Keyed by the config file; each applies to the files below its folder
+  private resolutions = new Map<string, ModuleResolution>();
+  // Files named by package.json `main`, `bin`, `exports` and `scripts`, keyed by the package.json
+  private packageEntries = new Map<string, string[]>();
+
+  static supports(type: string): boolean {
+    return ['typescript', 'javascript', 'react', 'python'].includes(type);
+  }
+
+  // Config files that the graph reads for entry points and path aliases
+  static isManifest(file: string): boolean {
+    return this.MANIFESTS.includes(path.posix.basename(file).toLowerCase());
+  }
+
+  setFile(file: string, content: string, type: string): void {
+    const name = path.posix.basename(file).toLowerCase();
+    if (name === 'package.json') {
+      this.packageEntries.set(file, this.readPackageEntries(file, content));
+      return;
+    }
+    if (name === 'tsconfig.json' || name === 'jsconfig.json') {
+      this.resolutions.set(file, this.readModuleResolution(file, content));
+      return;
+    }
+
+    const syntax = LanguageAnalyzers.getSyntax(type);
+    if (!DependencyGraph.supports(type) || !syntax) {
+      this.specifiers.delete(file);
+      return;
+    }
+
+    const tokens = SourceTokenizer.tokenize(content, syntax);
+    const imports = type === 'python' ? this.extractPythonImports(tokens) : this.extractScriptImports(tokens);
+    this.specifiers.set(file, { type, imports });
+  }
+
+  deleteFile(file: string): void {
+    this.specifiers.delete(file);
+    this.resolutions.delete(file);
+    this.packageEntries.delete(file);
+  }
+
+  /**
+   * Every indexed file gets an entry; cycles name their files with `describe`. With `isEntryPoint`,
+   * files that neither it nor a package.json names, and that no such file imports, are marked unused.
+   */
+  analyze(
+    describe: (file: string) => string = file => file,
+    isEntryPoint?: (file: string) => boolean
+  ): Map<string, FileDependencies> {
+    const edges = new Map<string, Set<string>>();
+    const dependencies = new Map<string, FileDependencies>();
+    this.specifiers.forEach(({ type, imports }, file) => {
+      const targets = new Set<string>();
+      imports.forEach(specifier => {
+        const target = type === 'python' ? this.resolvePython(file, specifier) : this.resolveScript(file, specifier);
+        if (target && target !== file) {
+          targets.add(target);
+        }
+      });
+      edges.set(file, targets);
+      dependencies.set(file, { imports: Array.from(targets).sort(), importedBy: [] });
+    });
+
+    edges.forEach((targets, file) => targets.forEach(target => dependencies.get(target)!.importedBy.push(file)));
+    dependencies.forEach(entry => entry.importedBy.sort());
+
+    this.findComponents(edges).forEach(component => component.forEach(file => {
+      const cycle = this.findCycle(file, component, edges);
+      dependencies.get(file)!.cycle = cycle.map(describe);
+    }));
+
+    if (isEntryPoint) {
+      this.findUnreachable(edges, isEntryPoint)?.forEach(file => dependencies.get(file)!.unused = true);
+    }
+    return dependencies;
+  }
+
+  // Undefined when no entry point exists, since then every file would look unused
+  private findUnreachable(edges: Map<string, Set<string>>, isEntryPoint: (file: string) => boolean): string[] | undefined {
+    const reached = new Set(Array.from(edges.keys()).filter(isEntryPoint));
+    this.packageEntries.forEach(entries => entries.forEach(entry => {
+      const file = this.resolveEntry(entry);
+      if (file) {
+        reached.add(file);
+      }
+    }));
+    if (reached.size === 0) {
+      return undefined;
+    }
+
+    const queue = Array.from(reached);
+    for (let i = 0; i < queue.length; i++) {
+      edges.get(queue[i])!.forEach(target => {
+        if (!reached.has(target)) {
+          reached.add(target);
+          queue.push(target);
+        }
+      });
+    }
+    return Array.from(edges.keys()).filter(file => !reached.has(file));
+  }
+
+  // Fields naming files, plus script commands like `node scripts/build.js`
+  private readPackageEntries(file: string, content: string): string[] {
+    let manifest: { [key: string]: unknown };
+    try {
+      manifest = JSON.parse(content);
+    } catch {
+      return [];
+    }
+
+    const entries: string[] = [];
+    const collect = (value: unknown): void => {
+      if (typeof value === 'string') {
+        entries.push(value);
+      } else if (value && typeof value === 'object') {
+        Object.values(value).forEach(collect);
+      }
+    };
+    [manifest.main, manifest.module, manifest.browser, manifest.bin, manifest.exports].forEach(collect);
+
+    Object.values(manifest.scripts ?? {}).forEach(command => {
+      if (typeof command === 'string') {
+        entries.push(...command.split(/\s+/).filter(word => /^[\w./-]+\.([cm]?[jt]sx?|py)$/.test(word)));
+      }
+    });
+
+    const root = path.posix.dirname(file);
+    return entries.map(entry => path.posix.join(root, entry));
+  }
+
+  private readModuleResolution(file: string, content: string): ModuleResolution {
+    const root = path.posix.dirname(file);
+    const { config } = ts.parseConfigFileTextToJson(file, content);
+    const options = config?.compilerOptions ?? {};
+    const resolve = (value: unknown) => typeof value === 'string' ? path.posix.join(root, value) : undefined;
+
+    // Paths without a baseUrl are relative to the config file
+    const baseUrl = resolve(options.baseUrl);
+    const paths = Object.entries<unknown>(options.paths ?? {}).map(([pattern, targets]): [string, string[]] => [
+      pattern,
+      Array.isArray(targets) ? targets.map(target => path.posix.join(baseUrl ?? root, String(target))) : []
+    ]);
+    return { baseUrl, paths, outDir: resolve(options.outDir), rootDir: resolve(options.rootDir) };
+  }
+
+  // Package entries usually name build output, so they are mapped back to the sources they compile from
+  private resolveEntry(entry: string): string | undefined {
+    const candidates = [entry];
+    this.resolutions.forEach(({ outDir, rootDir }) => {
+      if (outDir && rootDir && entry.startsWith(`${outDir}/`)) {
+        candidates.push(rootDir + entry.slice(outDir.length));
+      }
+    });
+    candidates.push(entry.replace(/(^|\/)(dist|out|build|lib)\//, '$1src/'));
+    return candidates.map(candidate => this.resolvePath(candidate)).find(Boolean);
+  }
+
+  // `import x from 'y'`, `export * from 'y'`, `import 'y'`, `require('y')` and `import('y')`
+  private extractScriptImports(tokens: Token[]): string[] {
+    const imports: string[] = [];
+    const literal = (token: Token | undefined) =>
+      token?.kind === 'string' && !token.text.startsWith('`') ? token.text.slice(1, -1) : undefined;
+
+    tokens.forEach((token, index) => {
+      if (token.kind !== 'word' || tokens[index - 1]?.text === '.') {
+        return;
+      }
+      if (token.text === 'from' || token.text === 'import') {
+        const specifier = literal(tokens[index + 1]);
+        if (specifier !== undefined) {
+          imports.push(specifier);
+        }
+      }
+      if ((token.text === 'require' || token.text === 'import') && tokens[index + 1]?.text === '(' &&
+          tokens[index + 3]?.text === ')') {
+        const specifier = literal(tokens[index + 2]);
+        if (specifier !== undefined) {
+          imports.push(specifier);
+        }
+      }
+    });
+    return imports;
+  }
+
+  // Dotted module names with their leading dots; `from a import b` also yields `a.b` in case `b` is a submodule
+  private extractPythonImports(tokens: Token[]): string[] {
+    const imports: string[] = [];
+    const startsStatement = (index: number) => index === 0 || tokens[index - 1].text === ';' ||
+      SourceTokenizer.getEndLine(tokens[index - 1]) < tokens[index].line;
+
+    // Reads a dotted name at `index`, returning it and the index after it
+    const readModule = (index: number): [string, number] => {
+      let name = '';
+      while (index < tokens.length && (tokens[index].text === '.' ||
+             (tokens[index].kind === 'word' && tokens[index].text !== 'import' && (name === '' || name.endsWith('.'))))) {
+        name += tokens[index++].text;
+      }
+      return [name, index];
+    };
+
+    for (let index = 0; index < tokens.length; index++) {
+      const keyword = tokens[index].text;
+      if (!startsStatement(index) || (keyword !== 'import' && keyword !== 'from')) {
+        continue;
+      }
+
+      let [module, next] = keyword === 'from' ? readModule(index + 1) : ['', index];
+      if (keyword === 'from' && tokens[next]?.text !== 'import') {
+        continue;
+      }
+
+      // Names run to the end of the statement, or to the closing parenthesis of a parenthesized list
+      let depth = 0;
+      let expectName = true;
+      for (next++; next < tokens.length && (depth > 0 || !startsStatement(next)); next++) {
+        const text = tokens[next].text;
+        if (text === '(') {
+          depth++;
+        } else if (text === ')') {
+          depth--;
+        } else if (text === ',') {
+          expectName = true;
+        } else if (expectName && tokens[next].kind === 'word') {
+          const [name, end] = readModule(next);
+          if (keyword === 'import') {
+            imports.push(name);
+          } else {
+            imports.push(module.endsWith('.') ? module + name : `${module}.${name}`);
+          }
+          next = end - 1;
+          expectName = false;
+        }
+      }
+      if (keyword === 'from') {
+        imports.push(module);
+      }
+      index = next - 1;
+    }
+    return imports;
+  }
+
+  // Relative specifiers, and path aliases or baseUrl imports from the nearest tsconfig.json; packages are skipped
+  private resolveScript(file: string, specifier: string): string | undefined {
+    if (specifier.startsWith('.')) {
+      return this.resolvePath(path.posix.join(path.posix.dirname(file), specifier));
+    }
+
+    const config = Array.from(this.resolutions.entries())
+      .filter(([configFile]) => DependencyGraph.isWithin(file, path.posix.dirname(configFile)))
+      .sort(([a], [b]) => b.length - a.length)[0]?.[1];
+    if (!config) {
+      return undefined;
+    }
+
+    for (const [pattern, targets] of config.paths) {
+      const wildcard = pattern.indexOf('*');
+      const prefix = wildcard < 0 ? pattern : pattern.slice(0, wildcard);
+      const suffix = wildcard < 0 ? '' : pattern.slice(wildcard + 1);
+      const matches = wildcard < 0
+        ? specifier === pattern
+        : specifier.startsWith(prefix) && specifier.endsWith(suffix) && specifier.length >= prefix.length + suffix.length;
+      if (matches) {
+        const captured = wildcard < 0 ? '' : specifier.slice(prefix.length, specifier.length - suffix.length);
+        const target = targets.map(candidate => this.resolvePath(candidate.replace('*', captured))).find(Boolean);
+        if (target) {
+          return target;
+        }
+      }
+    }
+    return config.baseUrl ? this.resolvePath(path.posix.join(config.baseUrl, specifier)) : undefined;
+  }
+
+  // A relative root of `.` holds every relative path
+  private static isWithin(file: string, folder: string): boolean {
+    return folder === '.' ? !file.startsWith('/') : file.startsWith(`${folder}/`);
+  }
+
+  // `.js` paths also find the `.ts` source they compile from
+  private resolvePath(base: string): string | undefined {
+    const stripped = base.replace(/\.(m|c)?jsx?$/, '');
+    const candidates = [
+      base,
+      ...DependencyGraph.SCRIPT_EXTENSIONS.map(ext => stripped + ext),
+      ...DependencyGraph.SCRIPT_EXTENSIONS.map(ext => `${base}/index${ext}`)
+    ];
+    return candidates.find(candidate => this.specifiers.has(candidate));
+  }
+
+  // Relative imports resolve from the package; absolute ones from the nearest enclosing folder that has them
+  private resolvePython(file: string, module: string): string | undefined {
+    const dots = module.match(/^\.*/)![0].length;
+    const modulePath = module.slice(dots).split('.').filter(Boolean).join('/');
+
+    let bases: string[];
+    if (dots > 0) {
+      let base = path.posix.dirname(file);
+      for (let i = 1; i < dots; i++) {
+        base = path.posix.dirname(base);
+      }
+      bases = [base];
+    } else {
+      bases = [];
+      for (let base = path.posix.dirname(file); ; base = path.posix.dirname(base)) {
+        bases.push(base);
+        if (base === path.posix.dirname(base)) {
+          break;
+        }
+      }
+    }
+
+    for (const base of bases) {
+      const target = path.posix.join(base, modulePath);
+      const candidate = [`${target}.py`, `${target}/__init__.py`].find(name => this.specifiers.has(name));
+      if (candidate) {
+        return candidate;
+      }
+    }
+    return undefined;
+  }
+
+  // Strongly connected components with more than one file, by Tarjan's algorithm without recursion
+  private findComponents(edges: Map<string, Set<string>>): Set<string>[] {
+    const indices = new Map<string, number>();
+    const lowLinks = new Map<string, number>();
+    const stack: string[] = [];
+    const onStack = new Set<string>();
+    const components: Set<string>[] = [];
+
+    edges.forEach((_, root) => {
+      if (indices.has(root)) {
+        return;
+      }
+      const work: [string, Iterator<string>][] = [];
+      const visit = (file: string) => {
+        indices.set(file, indices.size);
+        lowLinks.set(file, indices.get(file)!);
+        stack.push(file);
+        onStack.add(file);
+        work.push([file, edges.get(file)!.values()]);
+      };
+
+      visit(root);
+      while (work.length > 0) {
+        const [file, targets] = work[work.length - 1];
+        const next = targets.next();
+        if (!next.done) {
+          if (!indices.has(next.value)) {
+            visit(next.value);
+          } else if (onStack.has(next.value)) {
+            lowLinks.set(file, Math.min(lowLinks.get(file)!, indices.get(next.value)!));
+          }
+          continue;
+        }
+
+        work.pop();
+        if (work.length > 0) {
+          const parent = work[work.length - 1][0];
+          lowLinks.set(parent, Math.min(lowLinks.get(parent)!, lowLinks.get(file)!));
+        }
+        if (lowLinks.get(file) === indices.get(file)) {
+          const component = new Set<string>();
+          let member: string;
+          do {
+            member = stack.pop()!;
+            onStack.delete(member);
+            component.add(member);
+          } while (member !== file);
+          if (component.size > 1) {
+            components.push(component);
+          }
+        }
+      }
+    });
+    return components;
+  }
+
+  // Breadth-first search within the component, so the reported chain is as short as possible
+  private findCycle(file: string, component: Set<string>, edges: Map<string, Set<string>>): string[] {
+    const previous = new Map<string, string>();
+    const queue = [file];
+    for (let i = 0; i < queue.length; i++) {
+      for (const target of edges.get(queue[i])!) {
+        if (target === file) {
+          const chain = [file];
+          for (let step = queue[i]; step !== file; step = previous.get(step)!) {
+            chain.unshift(step);
+          }
+          return [file, ...chain];
+        }
+        if (component.has(target) && !previous.has(target)) {
+          previous.set(target, queue[i]);
+          queue.push(target);
+        }
+      }
+    }
+    return [file, file];
+  }
+}
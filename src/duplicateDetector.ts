@@ -0,0 +1,346 @@
+import { LanguageAnalyzers } from './languageAnalyzers';
+import { SourceTokenizer, Token } from './sourceTokenizer';
+
+export interface CloneLocation {
+  // Whatever key the caller registered the file under, e.g. a URI or a relative path
+  file: string;
+  startLine: number;
+  endLine: number;
+}
+
+export interface CodeClone {
+  a: CloneLocation;
+  b: CloneLocation;
+  tokens: number;
+}
+
+export interface FileDuplication {
+  // Distinct lines of the file covered by any clone
+  duplicatedLines: number;
+  // Each copy in this file with the location it duplicates, longest first
+  clones: { startLine: number; endLine: number; other: CloneLocation }[];
+}
+
+interface FileTokens {
+  // Normalized token hashes with the lines each token starts and ends on
+  tokens: Int32Array;
+  startLines: Int32Array;
+  endLines: Int32Array;
+  // Winnowed k-gram fingerprints: hash and token position
+  fingerprints: [number, number][];
+}
+
+// A matching token run, by token position
+interface Match {
+  fileA: string;
+  fromA: number;
+  fileB: string;
+  fromB: number;
+  length: number;
+}
+
+// Kept as written when normalizing; every other word is an identifier and matches any identifier
+const KEYWORDS = new Set([
+  'if', 'else', 'elif', 'for', 'while', 'do', 'loop', 'switch', 'case', 'default', 'match', 'select', 'break',
+  'continue', 'return', 'yield', 'try', 'catch', 'except', 'finally', 'throw', 'throws', 'raise', 'with', 'def',
+  'fn', 'func', 'function', 'class', 'struct', 'enum', 'interface', 'trait', 'impl', 'type', 'const', 'let',
+  'var', 'mut', 'new', 'delete', 'this', 'self', 'super', 'import', 'from', 'export', 'package', 'public',
+  'private', 'protected', 'static', 'async', 'await', 'lambda', 'in', 'of', 'is', 'not', 'and', 'or', 'true',
+  'false', 'null', 'nil', 'None', 'True', 'False', 'undefined', 'void', 'go', 'defer', 'chan'
+]);
+
+// Start import statements: `import` (JS, Python, Java, Go), Python's `from`, Rust's `use`
+const IMPORT_KEYWORDS = new Set(['import', 'from', 'use']);
+
+/**
+ * Finds copy-pasted code across files by comparing windows of normalized tokens.
+ * Identifiers and literals are normalized, so renamed copies still match. Files are
+ * fingerprinted by winnowing, which keeps the index small while still guaranteeing
+ * that every clone of `minTokens` or more tokens shares a fingerprint.
+ */
+export class DuplicateDetector {
+  private static readonly MIN_DISTINCT_TOKENS = 12;
+
+  private files = new Map<string, FileTokens>();
+  private tokenHashes = new Map<string, number>();
+  private kgram: number;
+  private window: number;
+
+  constructor(private minTokens: number) {
+    this.kgram = Math.max(1, Math.ceil(minTokens / 2));
+    this.window = Math.max(1, minTokens - this.kgram + 1);
+  }
+
+  // Only source files with a language analyzer take part; prose and data would match everywhere
+  static supports(type: string): boolean {
+    return LanguageAnalyzers.supports(type);
+  }
+
+  setFile(file: string, content: string, type: string): void {
+    const syntax = LanguageAnalyzers.getSyntax(type);
+    if (!DuplicateDetector.supports(type) || !syntax) {
+      this.files.delete(file);
+      return;
+    }
+
+    // Import headers of the same shape would match across every file, whatever they import
+    const sourceTokens = DuplicateDetector.withoutImports(SourceTokenizer.tokenize(content, syntax));
+    const tokens = Int32Array.from(sourceTokens, (token, i) => this.hashToken(
+      token.kind === 'string' ? (DuplicateDetector.isRequired(sourceTokens, i) ? token.text : '"')
+        : token.kind === 'word' && !KEYWORDS.has(token.text) ? (/^\d/.test(token.text) ? '0' : 'x') : token.text
+    ));
+    this.files.set(file, {
+      tokens,
+      startLines: Int32Array.from(sourceTokens, token => token.line),
+      endLines: Int32Array.from(sourceTokens, token => SourceTokenizer.getEndLine(token)),
+      fingerprints: this.winnow(tokens)
+    });
+  }
+
+  deleteFile(file: string): void {
+    this.files.delete(file);
+  }
+
+  findClones(): CodeClone[] {
+    const index = new Map<number, [string, number][]>();
+    this.files.forEach((file, key) => file.fingerprints.forEach(([hash, position]) => {
+      const occurrences = index.get(hash);
+      if (occurrences) {
+        occurrences.push([key, position]);
+      } else {
+        index.set(hash, [[key, position]]);
+      }
+    }));
+
+    // Copies of the same code are all paired with its first occurrence rather than with each other
+    const matches: Match[] = [];
+    const covered = new Map<string, [number, number][]>();
+    index.forEach(occurrences => {
+      for (let i = 1; i < occurrences.length; i++) {
+        const match = this.extend(occurrences[0], occurrences[i], covered);
+        if (match) {
+          matches.push(match);
+        }
+      }
+    });
+
+    // Repetitive code such as lookup tables matches itself at many offsets; only the largest match is kept,
+    // so a match is dropped when either copy overlaps one already reported for the same pair of files
+    const reported = new Map<string, [number, number][]>();
+    const overlaps = (key: string, from: number, length: number) =>
+      (reported.get(key) ?? []).some(([start, end]) => from < end && start < from + length);
+    const report = (key: string, from: number, length: number) =>
+      reported.set(key, [...(reported.get(key) ?? []), [from, from + length]]);
+
+    const clones: CodeClone[] = [];
+    matches.sort((a, b) => b.length - a.length).forEach(({ fileA, fromA, fileB, fromB, length }) => {
+      // Both copies of a clone within one file share that file's ranges
+      const keyA = `${fileA}\n${fileB}\n${fileA}`;
+      const keyB = `${fileA}\n${fileB}\n${fileB}`;
+      if (overlaps(keyA, fromA, length) || overlaps(keyB, fromB, length)) {
+        return;
+      }
+      report(keyA, fromA, length);
+      report(keyB, fromB, length);
+
+      const a = this.files.get(fileA)!;
+      const b = this.files.get(fileB)!;
+      clones.push({
+        a: { file: fileA, startLine: a.startLines[fromA], endLine: a.endLines[fromA + length - 1] },
+        b: { file: fileB, startLine: b.startLines[fromB], endLine: b.endLines[fromB + length - 1] },
+        tokens: length
+      });
+    });
+    return clones;
+  }
+
+  // Groups clones by file for health scoring, naming the other copy's file with `describe`
+  static summarize(clones: CodeClone[], describe: (file: string) => string = file => file): Map<string, FileDuplication> {
+    const lines = new Map<string, Set<number>>();
+    const summaries = new Map<string, FileDuplication>();
+
+    const add = (location: CloneLocation, other: CloneLocation) => {
+      let summary = summaries.get(location.file);
+      if (!summary) {
+        summary = { duplicatedLines: 0, clones: [] };
+        summaries.set(location.file, summary);
+        lines.set(location.file, new Set());
+      }
+      summary.clones.push({ startLine: location.startLine, endLine: location.endLine, other });
+      for (let line = location.startLine; line <= location.endLine; line++) {
+        lines.get(location.file)!.add(line);
+      }
+    };
+    clones.forEach(({ a, b }) => {
+      add(a, { ...b, file: describe(b.file) });
+      add(b, { ...a, file: describe(a.file) });
+    });
+
+    summaries.forEach((summary, file) => {
+      summary.duplicatedLines = lines.get(file)!.size;
+      summary.clones.sort((a, b) => (b.endLine - b.startLine) - (a.endLine - a.startLine) || a.startLine - b.startLine);
+    });
+    return summaries;
+  }
+
+  private static withoutImports(tokens: Token[]): Token[] {
+    const kept: Token[] = [];
+    for (let i = 0; i < tokens.length;) {
+      const end = this.findImportEnd(tokens, i);
+      if (end > i) {
+        i = end;
+      } else {
+        kept.push(tokens[i++]);
+      }
+    }
+    return kept;
+  }
+
+  // The index after the import statement starting at `start`, or `start` when none does
+  private static findImportEnd(tokens: Token[], start: number): number {
+    const [previous, token, next, afterNext] = [tokens[start - 1], tokens[start], tokens[start + 1], tokens[start + 2]];
+    const atStatementStart = !previous || previous.text === ';' || SourceTokenizer.getEndLine(previous) < token.line;
+    const isImport = token.kind === 'word' && next !== undefined && (
+      IMPORT_KEYWORDS.has(token.text)
+        // `import('x')` is an expression, while Go's `import (` lists one path per line; Python has `from . import x`
+        ? next.kind !== 'symbol' || next.text === '{' || next.text === '*' || (next.text === '.' && token.text === 'from') ||
+          (next.text === '(' && afterNext !== undefined && afterNext.line > next.line)
+        : token.text === 'export' && (next.text === '{' || next.text === '*')
+    );
+    if (!atStatementStart || !isImport) {
+      return start;
+    }
+
+    // Runs to a `;` or the end of the line, past any brackets still open there
+    let depth = 0;
+    let end = start;
+    while (end < tokens.length) {
+      const current = tokens[end];
+      if (depth === 0 && end > start && current.line > SourceTokenizer.getEndLine(tokens[end - 1])) {
+        break;
+      }
+      end++;
+      if (current.text === '(' || current.text === '[' || current.text === '{') {
+        depth++;
+      } else if (current.text === ')' || current.text === ']' || current.text === '}') {
+        depth = Math.max(0, depth - 1);
+      } else if (depth === 0 && current.text === ';') {
+        break;
+      }
+    }
+    return end;
+  }
+
+  // Module names in `require('...')` are kept, so calls loading different modules do not match
+  private static isRequired(tokens: Token[], index: number): boolean {
+    return tokens[index - 1]?.text === '(' && tokens[index - 2]?.text === 'require';
+  }
+
+  private hashToken(text: string): number {
+    let hash = this.tokenHashes.get(text);
+    if (hash === undefined) {
+      // FNV-1a
+      hash = 0x811c9dc5;
+      for (let i = 0; i < text.length; i++) {
+        hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193);
+      }
+      this.tokenHashes.set(text, hash);
+    }
+    return hash;
+  }
+
+  // Rolling hashes of every k-gram, keeping the rightmost minimum of each window
+  private winnow(tokens: Int32Array): [number, number][] {
+    const count = tokens.length - this.kgram + 1;
+    if (count <= 0) {
+      return [];
+    }
+
+    const base = 31;
+    let power = 1;
+    for (let i = 1; i < this.kgram; i++) {
+      power = Math.imul(power, base);
+    }
+    const hashes = new Int32Array(count);
+    let hash = 0;
+    for (let i = 0; i < tokens.length; i++) {
+      if (i >= this.kgram) {
+        hash = hash - Math.imul(tokens[i - this.kgram], power);
+      }
+      hash = (Math.imul(hash, base) + tokens[i]) | 0;
+      if (i >= this.kgram - 1) {
+        hashes[i - this.kgram + 1] = hash;
+      }
+    }
+
+    const fingerprints: [number, number][] = [];
+    let selected = -1;
+    for (let start = 0; start <= Math.max(0, count - this.window); start++) {
+      const end = Math.min(start + this.window, count);
+      if (selected < start) {
+        selected = start;
+        for (let i = start + 1; i < end; i++) {
+          if (hashes[i] <= hashes[selected]) {
+            selected = i;
+          }
+        }
+        fingerprints.push([hashes[selected], selected]);
+      } else if (end - 1 > selected && hashes[end - 1] <= hashes[selected]) {
+        selected = end - 1;
+        fingerprints.push([hashes[selected], selected]);
+      }
+    }
+    return fingerprints;
+  }
+
+  // Grows a shared fingerprint into the longest matching token run in both files
+  private extend(
+    [fileA, positionA]: [string, number],
+    [fileB, positionB]: [string, number],
+    covered: Map<string, [number, number][]>
+  ): Match | undefined {
+    if (fileA === fileB && positionA === positionB) {
+      return undefined;
+    }
+    if (fileA > fileB || (fileA === fileB && positionA > positionB)) {
+      [fileA, positionA, fileB, positionB] = [fileB, positionB, fileA, positionA];
+    }
+
+    // Matches along one diagonal of a file pair are found once, whichever fingerprint is hit first
+    const diagonal = `${fileA}\n${fileB}\n${positionB - positionA}`;
+    const ranges = covered.get(diagonal) ?? [];
+    if (ranges.some(([start, end]) => positionA >= start && positionA < end)) {
+      return undefined;
+    }
+
+    const a = this.files.get(fileA)!;
+    const b = this.files.get(fileB)!;
+    let start = 0;
+    while (positionA - start > 0 && positionB - start > 0 &&
+           a.tokens[positionA - start - 1] === b.tokens[positionB - start - 1]) {
+      start++;
+    }
+    let end = 0;
+    while (positionA + end < a.tokens.length && positionB + end < b.tokens.length &&
+           a.tokens[positionA + end] === b.tokens[positionB + end]) {
+      end++;
+    }
+
+    const fromA = positionA - start;
+    const fromB = positionB - start;
+    ranges.push([fromA, fromA + start + end]);
+    covered.set(diagonal, ranges);
+
+    // Copies within one file that overlap, or sit closer than a clone is long, are one repeating pattern
+    // such as a table or a run of similar declarations rather than copied code
+    const length = start + end;
+    if (fileA === fileB && fromA + length + this.minTokens > fromB) {
+      return undefined;
+    }
+    // Uniform rows share only a few kinds of token, however many of them there are
+    const distinct = new Set(a.tokens.subarray(fromA, fromA + length)).size;
+    return length >= this.minTokens && distinct >= DuplicateDetector.MIN_DISTINCT_TOKENS
+      ? { fileA, fromA, fileB, fromB, length }
+      : undefined;
+  }
+}
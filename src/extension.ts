@@ -1,20 +1,55 @@
 // The module 'vscode' contains the VS Code extensibility API
 // Import the module and reference it with the alias vscode in your code below
 import * as vscode from 'vscode';
-import { GardenProvider, GroupBy, HealthFilter } from './gardenProvider';
+import { GardenProvider, GroupBy } from './gardenProvider';
 import { GardenStatusBar } from './gardenStatusBar';
+import { ComplexityCodeLensProvider } from './complexityCodeLens';
+import { GardenDiagnostics } from './gardenDiagnostics';
+import { GardenDecorationProvider } from './gardenDecorations';
+import { FunctionMetrics } from './complexityAnalyzer';
+import { FileIssue } from './fileAnalyzer';
+import { FileHistoryPoint } from './healthHistory';
+import { createFileHistorySection, createTrendWebview } from './trendView';
+import { buildGardenMap, createGardenMapWebview } from './gardenMap';
+import { ReportFormat, ReportGenerator } from './reportGenerator';
+import { ProviderRegistry } from './providerRegistry';
+import { CloneLocation } from './duplicateDetector';
+import { VerdantViewApi, createApi } from './api';
+import { GardenFilter, GardenFilters, HealthFilter } from './gardenFilter';
+import { SavedViews } from './savedViews';
 
 
-export function activate(context: vscode.ExtensionContext) {
-  const provider = new GardenProvider(context);
+export function activate(context: vscode.ExtensionContext): VerdantViewApi {
+  const registry = new ProviderRegistry();
+  const provider = new GardenProvider(context, registry);
   const statusBar = new GardenStatusBar();
+  const codeLensProvider = new ComplexityCodeLensProvider();
+  const decorationProvider = new GardenDecorationProvider(provider);
+  const treeView = vscode.window.createTreeView('verdantView', { treeDataProvider: provider });
+  const savedViews = new SavedViews(context.workspaceState);
+  let activeView: string | undefined;
+
+  // Shows the active filter, and the saved view it came from, next to the view title
+  const applyFilter = (filter: GardenFilter, viewName?: string) => {
+    const query = GardenFilters.format(filter);
+    activeView = viewName;
+    provider.setFilter(filter);
+    treeView.description = viewName ? `${viewName}${query ? `: ${query}` : ''}` : query || undefined;
+    vscode.commands.executeCommand('setContext', 'verdantView.filtered', query !== '');
+  };
   
   // Register tree data provider
   context.subscriptions.push(
-    vscode.window.registerTreeDataProvider('verdantView', provider),
+    treeView,
     // Register dispose method to clean up watchers
     { dispose: () => provider.dispose() },
-    statusBar
+    registry,
+    statusBar,
+    codeLensProvider,
+    new GardenDiagnostics(provider),
+    decorationProvider,
+    vscode.window.registerFileDecorationProvider(decorationProvider),
+    vscode.languages.registerCodeLensProvider(ComplexityCodeLensProvider.SELECTOR, codeLensProvider)
   );
 
   // Register commands
@@ -28,13 +63,15 @@ export function activate(context: vscode.ExtensionContext) {
       if (item && item.uri && item.metrics) {
         const metrics = item.metrics;
         const message = `📊 **File Analysis: ${item.label}**\n\n` +
-          `Lines: ${metrics.lines.toLocaleString()}\n` +
+          `Lines: ${metrics.lines.toLocaleString()} (${metrics.sloc.toLocaleString()} code, ${metrics.commentLines.toLocaleString()} comment, ${metrics.blankLines.toLocaleString()} blank)\n` +
           `Size: ${Math.round(metrics.size/1024)}KB\n` +
           `Complexity: ${metrics.complexity}\n` +
           `Type: ${metrics.type}\n` +
-          `Health: ${metrics.health}\n` +
-          `Last Modified: ${metrics.lastModified.toLocaleDateString()}\n\n` +
-          (metrics.issues.length > 0 ? `Issues:\n${metrics.issues.map((i: string) => `• ${i}`).join('\n')}` : 'No issues found! ✨');
+          `Health: ${metrics.health} (score ${metrics.score}/100)\n` +
+          `Last Modified: ${metrics.lastModified.toLocaleDateString()}\n` +
+          (metrics.git ? `Last Commit: ${metrics.git.lastCommitDate.toLocaleDateString()} (${metrics.git.commitCount} recent commits, ${metrics.git.authors} authors)\n` : '') +
+          `\n` +
+          (metrics.issues.length > 0 ? `Issues:\n${metrics.issues.map((issue: FileIssue) => `• ${issue.message}`).join('\n')}` : 'No issues found! ✨');
         
         vscode.window.showInformationMessage(message);
       }
@@ -49,18 +86,146 @@ export function activate(context: vscode.ExtensionContext) {
           { enableScripts: true }
         );
         
-        panel.webview.html = createMetricsWebview(item.metrics, item.label, item.uri.fsPath);
+        const history = await provider.getHistory().getFileHistory(item.uri);
+        const dependencies = await provider.getDependencies(item.uri);
+        panel.webview.html = createMetricsWebview(item.metrics, item.label, item.uri.fsPath, history, dependencies);
+
+        // Jump to a function when its row is clicked in the breakdown table, or open a dependency
+        panel.webview.onDidReceiveMessage(async (message) => {
+          if (message.command === 'openFunction') {
+            const position = new vscode.Position(message.line - 1, 0);
+            await vscode.window.showTextDocument(item.uri, {
+              viewColumn: vscode.ViewColumn.Beside,
+              selection: new vscode.Range(position, position)
+            });
+          } else if (message.command === 'openFile') {
+            await vscode.window.showTextDocument(vscode.Uri.parse(message.uri), { viewColumn: vscode.ViewColumn.Beside });
+          }
+        });
       }
     }),
 
+    vscode.commands.registerCommand('verdantview.showTrends', async () => {
+      const snapshots = await provider.getHistory().getSnapshots();
+      const panel = vscode.window.createWebviewPanel(
+        'verdantTrends',
+        'Garden Trends',
+        vscode.ViewColumn.One,
+        {}
+      );
+
+      panel.webview.html = createTrendWebview(snapshots);
+    }),
+
+    vscode.commands.registerCommand('verdantview.showGardenMap', async () => {
+      const plants = await provider.getPlants();
+      const panel = vscode.window.createWebviewPanel(
+        'verdantGardenMap',
+        'Garden Map',
+        vscode.ViewColumn.One,
+        { enableScripts: true }
+      );
+
+      panel.webview.html = createGardenMapWebview(buildGardenMap(plants));
+
+      // Open files clicked in the map
+      panel.webview.onDidReceiveMessage(async (message) => {
+        if (message.command === 'openFile') {
+          await vscode.window.showTextDocument(vscode.Uri.parse(message.uri), { viewColumn: vscode.ViewColumn.Beside });
+        }
+      });
+    }),
+
+    vscode.commands.registerCommand('verdantview.recordSnapshot', async () => {
+      await provider.recordSnapshot();
+      vscode.window.showInformationMessage('Garden snapshot recorded! 📸');
+    }),
+
+    vscode.commands.registerCommand('verdantview.writeBaseline', async () => {
+      const baselineUri = await provider.writeBaseline();
+      if (!baselineUri) {
+        vscode.window.showWarningMessage('Open a folder to write a health baseline.');
+        return;
+      }
+      vscode.window.showInformationMessage(`Health baseline written to ${vscode.workspace.asRelativePath(baselineUri)} 📌`);
+    }),
+
+    vscode.commands.registerCommand('verdantview.showDuplicates', async () => {
+      const clones = await provider.getClones();
+      if (clones.length === 0) {
+        vscode.window.showInformationMessage('No duplicate code found in your garden! ✨');
+        return;
+      }
+
+      const describe = (location: CloneLocation) =>
+        `${vscode.workspace.asRelativePath(vscode.Uri.parse(location.file))}:${location.startLine}-${location.endLine}`;
+      const selected = await vscode.window.showQuickPick(clones.map(clone => ({
+        label: `${describe(clone.a)} ↔ ${describe(clone.b)}`,
+        description: `${clone.a.endLine - clone.a.startLine + 1} lines, ${clone.tokens} tokens`,
+        clone
+      })), { placeHolder: 'Select a clone pair to compare side by side', matchOnDescription: true });
+      if (!selected) {
+        return;
+      }
+
+      // The diff opens at the copy on the right, which is usually the one to remove
+      const { a, b } = selected.clone;
+      await vscode.commands.executeCommand(
+        'vscode.diff',
+        vscode.Uri.parse(a.file),
+        vscode.Uri.parse(b.file),
+        selected.label,
+        { selection: new vscode.Range(b.startLine - 1, 0, b.endLine - 1, 0) }
+      );
+    }),
+
     vscode.commands.registerCommand('verdantview.openSettings', () => {
       vscode.commands.executeCommand('workbench.action.openSettings', 'verdantView');
     }),
 
     vscode.commands.registerCommand('verdantview.exportReport', async () => {
+      const formats: (vscode.QuickPickItem & { format: ReportFormat })[] = [
+        { label: 'Markdown', description: 'Readable summary document', format: 'markdown' },
+        { label: 'JSON', description: 'Full metrics for every file plus the summary', format: 'json' },
+        { label: 'CSV', description: 'One row per file for spreadsheets', format: 'csv' },
+        { label: 'HTML', description: 'Self-contained report with charts', format: 'html' },
+        { label: 'SARIF', description: 'SARIF 2.1 for code-scanning tools', format: 'sarif' }
+      ];
+
+      const selectedFormat = await vscode.window.showQuickPick(formats, {
+        placeHolder: 'Choose a report format'
+      });
+      if (!selectedFormat) {
+        return;
+      }
+
+      const destinations: vscode.QuickPickItem[] = [
+        { label: 'Open in Editor', description: 'Show the report in a new untitled editor' },
+        { label: 'Save to File...', description: 'Write the report to disk' }
+      ];
+      const selectedDestination = await vscode.window.showQuickPick(destinations, {
+        placeHolder: 'Where should the report go?'
+      });
+      if (!selectedDestination) {
+        return;
+      }
+
+      let destination: vscode.Uri | undefined;
+      if (selectedDestination.label === 'Save to File...') {
+        destination = await vscode.window.showSaveDialog({
+          defaultUri: getDefaultReportUri(selectedFormat.format),
+          filters: { [selectedFormat.label]: [ReportGenerator.FILE_EXTENSIONS[selectedFormat.format]] }
+        });
+        if (!destination) {
+          return;
+        }
+      }
+
       try {
-        await provider.exportReport();
-        vscode.window.showInformationMessage('Garden report exported! 📄');
+        await provider.exportReport(selectedFormat.format, destination);
+        vscode.window.showInformationMessage(destination
+          ? `Garden report saved to ${vscode.workspace.asRelativePath(destination)} 📄`
+          : 'Garden report exported! 📄');
       } catch (error) {
         vscode.window.showErrorMessage(`Failed to export report: ${error}`);
       }
@@ -71,7 +236,8 @@ export function activate(context: vscode.ExtensionContext) {
         { label: 'All Files', description: 'Show all files regardless of health' },
         { label: 'Healthy Files', description: 'Show only healthy files 🌱' },
         { label: 'Files Needing Attention', description: 'Show files with warnings ⚠️' },
-        { label: 'Critical Files', description: 'Show only critical files 🚨' }
+        { label: 'Critical Files', description: 'Show only critical files 🚨' },
+        { label: 'Withered Files', description: 'Show files no entry point imports 🍂' }
       ];
 
       const selected = await vscode.window.showQuickPick(options, {
@@ -79,24 +245,116 @@ export function activate(context: vscode.ExtensionContext) {
       });
 
       if (selected) {
-        let filter: HealthFilter;
+        let health: HealthFilter[];
         switch (selected.label) {
-          case 'Healthy Files': filter = 'healthy'; break;
-          case 'Files Needing Attention': filter = 'warning'; break;
-          case 'Critical Files': filter = 'critical'; break;
-          default: filter = 'all'; break;
+          case 'Healthy Files': health = ['healthy']; break;
+          case 'Files Needing Attention': health = ['warning']; break;
+          case 'Critical Files': health = ['critical']; break;
+          case 'Withered Files': health = ['withered']; break;
+          default: health = []; break;
         }
-        provider.setHealthFilter(filter);
+        // Keeps the rest of the combined filter
+        applyFilter({ ...provider.getFilter(), health });
         vscode.window.showInformationMessage(`Filtering by: ${selected.label}`);
       }
     }),
 
+    vscode.commands.registerCommand('verdantview.filter', async () => {
+      const query = await vscode.window.showInputBox({
+        prompt: 'Filter by path:<glob>, type:<types>, health:<states>, metric ranges like complexity>=15 or lines>400, and file name',
+        placeHolder: 'path:src/** health:warning,critical complexity>=15 parser',
+        value: GardenFilters.format(provider.getFilter()),
+        validateInput: value => {
+          try {
+            GardenFilters.parse(value);
+            return undefined;
+          } catch (error) {
+            return error instanceof Error ? error.message : String(error);
+          }
+        }
+      });
+
+      if (query !== undefined) {
+        applyFilter(GardenFilters.parse(query));
+      }
+    }),
+
+    vscode.commands.registerCommand('verdantview.clearFilter', () => {
+      applyFilter({});
+    }),
+
+    vscode.commands.registerCommand('verdantview.saveView', async () => {
+      const name = await vscode.window.showInputBox({
+        prompt: 'Save the current filter and grouping as a view',
+        placeHolder: 'View name',
+        value: activeView,
+        validateInput: value => value.trim() ? undefined : 'Enter a name for the view'
+      });
+
+      if (name) {
+        const filter = provider.getFilter();
+        await savedViews.save({ name: name.trim(), filter, groupBy: provider.getGroupBy() });
+        applyFilter(filter, name.trim());
+        vscode.window.showInformationMessage(`Saved view: ${name.trim()}`);
+      }
+    }),
+
+    vscode.commands.registerCommand('verdantview.switchView', async () => {
+      const views = savedViews.getAll();
+      if (views.length === 0) {
+        vscode.window.showInformationMessage('No saved views yet. Filter the garden and run "Save Current View".');
+        return;
+      }
+
+      const options: vscode.QuickPickItem[] = [
+        { label: 'Show All Files', description: 'Clear the filter' },
+        ...views.map(view => ({
+          label: view.name,
+          description: GardenFilters.format(view.filter) || 'No filter',
+          picked: view.name === activeView
+        }))
+      ];
+
+      const selected = await vscode.window.showQuickPick(options, {
+        placeHolder: 'Switch to a saved view'
+      });
+
+      const view = selected && savedViews.get(selected.label);
+      if (view) {
+        if (view.groupBy) {
+          provider.setGroupBy(view.groupBy);
+        }
+        applyFilter(view.filter, view.name);
+      } else if (selected) {
+        applyFilter({});
+      }
+    }),
+
+    vscode.commands.registerCommand('verdantview.deleteView', async () => {
+      const selected = await vscode.window.showQuickPick(
+        savedViews.getAll().map(view => ({ label: view.name, description: GardenFilters.format(view.filter) || 'No filter' })),
+        { placeHolder: 'Delete a saved view' }
+      );
+
+      if (selected) {
+        await savedViews.delete(selected.label);
+        if (selected.label === activeView) {
+          applyFilter(provider.getFilter());
+        }
+        vscode.window.showInformationMessage(`Deleted view: ${selected.label}`);
+      }
+    }),
+
     vscode.commands.registerCommand('verdantview.groupByType', async () => {
       const options: vscode.QuickPickItem[] = [
         { label: 'No Grouping', description: 'Show all files in a flat list' },
         { label: 'Group by File Type', description: 'Group files by their type (TypeScript, Python, etc.)' },
         { label: 'Group by Health', description: 'Group files by health status' },
-        { label: 'Group by Folder', description: 'Group files by their containing folder' }
+        { label: 'Group by Folder', description: 'Group files by their containing folder' },
+        { label: 'Folder Tree', description: 'Browse nested folders with health roll-ups' },
+        { label: 'Show Hotspots', description: 'Rank files by churn × complexity 🔥' },
+        { label: 'Rank by Health Score', description: 'List files from the lowest health score up' },
+        { label: 'New Issues Only', description: 'Show files that are new or got worse since the baseline 📉' }
       ];
 
       const selected = await vscode.window.showQuickPick(options, {
@@ -109,8 +367,15 @@ export function activate(context: vscode.ExtensionContext) {
           case 'Group by File Type': groupBy = 'type'; break;
           case 'Group by Health': groupBy = 'health'; break;
           case 'Group by Folder': groupBy = 'folder'; break;
+          case 'Folder Tree': groupBy = 'tree'; break;
+          case 'Show Hotspots': groupBy = 'hotspots'; break;
+          case 'Rank by Health Score': groupBy = 'score'; break;
+          case 'New Issues Only': groupBy = 'regressions'; break;
           default: groupBy = 'none'; break;
         }
+        if (groupBy === 'regressions' && !provider.hasBaseline()) {
+          vscode.window.showWarningMessage('No health baseline found. Run "Write Health Baseline" first.');
+        }
         provider.setGroupBy(groupBy);
         vscode.window.showInformationMessage(`Grouping by: ${selected.label}`);
       }
@@ -155,9 +420,18 @@ export function activate(context: vscode.ExtensionContext) {
   vscode.window.showInformationMessage(
     `🌱 Welcome to Verdant Garden! ${watchIcon} File watching ${fileWatchingEnabled ? 'enabled' : 'disabled'}`
   );
+
+  // Lets other extensions contribute metrics and rules
+  return createApi(provider, registry, context.subscriptions);
 }
 
-function createMetricsWebview(metrics: any, fileName: string, filePath: string): string {
+function createMetricsWebview(
+  metrics: any,
+  fileName: string,
+  filePath: string,
+  history: FileHistoryPoint[],
+  dependencies?: { imports: vscode.Uri[]; importedBy: vscode.Uri[] }
+): string {
   const healthColor = metrics.health === 'healthy' ? '#4CAF50' : 
                      metrics.health === 'warning' ? '#FF9800' : '#F44336';
   
@@ -233,9 +507,63 @@ function createMetricsWebview(metrics: any, fileName: string, filePath: string):
             background: var(--vscode-list-hoverBackground);
             border-radius: 4px;
         }
+        .functions, .history, .dependencies {
+            margin-top: 30px;
+        }
+        .dependency-columns {
+            display: grid;
+            grid-template-columns: 1fr 1fr;
+            gap: 20px;
+        }
+        .dependency-columns h4 {
+            margin: 0 0 8px;
+            color: var(--vscode-descriptionForeground);
+        }
+        .dependency-columns a {
+            display: block;
+            margin: 4px 0;
+            color: var(--vscode-textLink-foreground);
+            cursor: pointer;
+        }
+        .history-row {
+            display: flex;
+            align-items: center;
+            gap: 12px;
+            margin: 6px 0;
+        }
+        .history-label {
+            width: 100px;
+            color: var(--vscode-descriptionForeground);
+        }
+        .empty {
+            color: var(--vscode-descriptionForeground);
+            font-size: 12px;
+        }
+        .functions table {
+            width: 100%;
+            border-collapse: collapse;
+        }
+        .functions th, .functions td {
+            text-align: left;
+            padding: 6px 10px;
+            border-bottom: 1px solid var(--vscode-panel-border);
+        }
+        .functions th {
+            cursor: pointer;
+            user-select: none;
+        }
+        .functions tbody tr {
+            cursor: pointer;
+        }
+        .functions tbody tr:hover {
+            background: var(--vscode-list-hoverBackground);
+        }
     </style>
 </head>
 <body>
+    <script>
+        const vscode = acquireVsCodeApi();
+    </script>
     <div class="header">
         <div class="file-name">📊 ${fileName}</div>
         <div class="file-path">${filePath}</div>
@@ -244,7 +572,27 @@ function createMetricsWebview(metrics: any, fileName: string, filePath: string):
     <div class="metrics-grid">
         <div class="metric-card">
             <div class="metric-value">${metrics.lines.toLocaleString()}</div>
-            <div class="metric-label">Lines of Code</div>
+            <div class="metric-label">Lines</div>
+        </div>
+        
+        <div class="metric-card">
+            <div class="metric-value">${metrics.sloc.toLocaleString()}</div>
+            <div class="metric-label">Source Lines of Code</div>
+        </div>
+        
+        <div class="metric-card">
+            <div class="metric-value">${metrics.commentDensity}%</div>
+            <div class="metric-label">Comment Density</div>
+        </div>
+        
+        <div class="metric-card">
+            <div class="metric-value">${metrics.duplication}%</div>
+            <div class="metric-label">Duplication</div>
+        </div>
+        
+        <div class="metric-card">
+            <div class="metric-value">${metrics.fanIn} / ${metrics.fanOut}</div>
+            <div class="metric-label">Fan-in / Fan-out (instability ${metrics.instability})</div>
         </div>
         
         <div class="metric-card">
@@ -257,9 +605,14 @@ function createMetricsWebview(metrics: any, fileName: string, filePath: string):
             <div class="metric-label">Complexity Score</div>
         </div>
         
+        <div class="metric-card">
+            <div class="metric-value">${metrics.totalComplexity}</div>
+            <div class="metric-label">Total Complexity</div>
+        </div>
+        
         <div class="metric-card">
             <div class="metric-value"><span class="health-indicator">${metrics.health.toUpperCase()}</span></div>
-            <div class="metric-label">Health Status</div>
+            <div class="metric-label">Health Status (score ${metrics.score}/100)</div>
         </div>
         
         <div class="metric-card">
@@ -271,12 +624,33 @@ function createMetricsWebview(metrics: any, fileName: string, filePath: string):
             <div class="metric-value">${metrics.lastModified.toLocaleDateString()}</div>
             <div class="metric-label">Last Modified</div>
         </div>
+        ${metrics.git ? `
+        <div class="metric-card">
+            <div class="metric-value">${metrics.git.lastCommitDate.toLocaleDateString()}</div>
+            <div class="metric-label">Last Commit</div>
+        </div>
+        
+        <div class="metric-card">
+            <div class="metric-value">${metrics.git.commitCount}</div>
+            <div class="metric-label">Recent Commits</div>
+        </div>
+        
+        <div class="metric-card">
+            <div class="metric-value">${metrics.git.authors}</div>
+            <div class="metric-label">Authors</div>
+        </div>
+        
+        <div class="metric-card">
+            <div class="metric-value">+${metrics.git.linesAdded} / -${metrics.git.linesRemoved}</div>
+            <div class="metric-label">Lines Added / Removed</div>
+        </div>
+        ` : ''}
     </div>
     
     ${metrics.issues.length > 0 ? `
     <div class="issues">
         <h3>🚨 Issues Detected</h3>
-        ${metrics.issues.map((issue: string) => `<div class="issue-item">• ${issue}</div>`).join('')}
+        ${metrics.issues.map((issue: FileIssue) => `<div class="issue-item">• ${escapeHtml(issue.message)}</div>`).join('')}
     </div>
     ` : `
     <div class="issues">
@@ -284,10 +658,119 @@ function createMetricsWebview(metrics: any, fileName: string, filePath: string):
         <p>This file appears to be in good health!</p>
     </div>
     `}
+    ${createFileHistorySection(history)}
+    ${dependencies ? createDependencySection(dependencies) : ''}
+    ${metrics.functions.length > 0 ? createFunctionTable(metrics.functions) : ''}
 </body>
 </html>`;
 }
 
 
+function getDefaultReportUri(format: ReportFormat): vscode.Uri | undefined {
+  const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+  if (!workspaceFolder) {
+    return undefined;
+  }
+
+  const config = vscode.workspace.getConfiguration('verdantView');
+  const outputDirectory = config.get<string>('reportOutputDirectory', '');
+  const fileName = `garden-report.${ReportGenerator.FILE_EXTENSIONS[format]}`;
+  return vscode.Uri.joinPath(workspaceFolder.uri, outputDirectory, fileName);
+}
+
+function createFunctionTable(functions: FunctionMetrics[]): string {
+  const rows = functions.map(fn => `
+            <tr data-line="${fn.startLine}">
+                <td>${escapeHtml(fn.name)}</td>
+                <td>${fn.startLine}–${fn.endLine}</td>
+                <td>${fn.length}</td>
+                <td>${fn.nestingDepth}</td>
+                <td>${fn.complexity}</td>
+            </tr>`).join('');
+
+  return `
+    <div class="functions">
+        <h3>🌿 Functions</h3>
+        <table>
+            <thead>
+                <tr>
+                    <th data-key="0" data-type="text">Name</th>
+                    <th data-key="1" data-type="number">Lines</th>
+                    <th data-key="2" data-type="number">Length</th>
+                    <th data-key="3" data-type="number">Nesting</th>
+                    <th data-key="4" data-type="number">Complexity</th>
+                </tr>
+            </thead>
+            <tbody>${rows}
+            </tbody>
+        </table>
+    </div>
+    <script>
+        const tbody = document.querySelector('.functions tbody');
+        let sortKey = -1;
+        let ascending = true;
+
+        tbody.addEventListener('click', (event) => {
+            const row = event.target.closest('tr');
+            if (row) {
+                vscode.postMessage({ command: 'openFunction', line: Number(row.dataset.line) });
+            }
+        });
+
+        document.querySelectorAll('.functions th').forEach(header => {
+            header.addEventListener('click', () => {
+                const key = Number(header.dataset.key);
+                ascending = sortKey === key ? !ascending : header.dataset.type === 'text';
+                sortKey = key;
+
+                const value = (row) => {
+                    const text = row.children[key].textContent;
+                    return header.dataset.type === 'number' ? parseFloat(text) : text.toLowerCase();
+                };
+                const rows = Array.from(tbody.querySelectorAll('tr'));
+                rows.sort((a, b) => {
+                    const result = value(a) < value(b) ? -1 : value(a) > value(b) ? 1 : 0;
+                    return ascending ? result : -result;
+                });
+                rows.forEach(row => tbody.appendChild(row));
+            });
+        });
+    </script>`;
+}
+
+function createDependencySection(dependencies: { imports: vscode.Uri[]; importedBy: vscode.Uri[] }): string {
+  const links = (uris: vscode.Uri[]) => uris.length > 0
+    ? uris.map(uri => `<a data-uri="${escapeHtml(uri.toString())}">${escapeHtml(vscode.workspace.asRelativePath(uri))}</a>`).join('')
+    : '<div class="empty">None</div>';
+
+  return `
+    <div class="dependencies">
+        <h3>🔗 Dependencies</h3>
+        <div class="dependency-columns">
+            <div>
+                <h4>Imports (${dependencies.imports.length})</h4>
+                ${links(dependencies.imports)}
+            </div>
+            <div>
+                <h4>Imported by (${dependencies.importedBy.length})</h4>
+                ${links(dependencies.importedBy)}
+            </div>
+        </div>
+    </div>
+    <script>
+        document.querySelectorAll('.dependencies a').forEach(link => {
+            link.addEventListener('click', () => vscode.postMessage({ command: 'openFile', uri: link.dataset.uri }));
+        });
+    </script>`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
 // This method is called when your extension is deactivated
 export function deactivate() {}
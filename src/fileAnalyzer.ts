@@ -1,24 +1,154 @@
-import * as vscode from 'vscode';
-import * as fs from 'fs';
 import * as path from 'path';
+import { createHash } from 'crypto';
+import { FunctionMetrics } from './complexityAnalyzer';
+import { FileDuplication } from './duplicateDetector';
+import { FileDependencies } from './dependencyGraph';
+import { GitMetrics } from './gitHistory';
+import { LanguageAnalyzers } from './languageAnalyzers';
+
+// Binary assets are measured by size alone; generated files are measured but not scored
+export type FileKind = 'source' | 'binary' | 'generated';
 
 export interface FileMetrics {
+  kind: FileKind;
+  // Physical lines, split into code, comment-only and blank lines
   lines: number;
+  sloc: number;
+  commentLines: number;
+  blankLines: number;
+  // Comment lines as a percentage of code and comment lines
+  commentDensity: number;
+  // Lines copied elsewhere in the workspace, and their percentage of all lines
+  duplicatedLines: number;
+  duplication: number;
+  // Files importing this one, files it imports, and fan-out as a share of both (0 = stable, 1 = unstable)
+  fanIn: number;
+  fanOut: number;
+  instability: number;
+  // Withered: not reachable through imports from any entry point
+  unused: boolean;
   size: number;
   complexity: number;
+  totalComplexity: number;
+  functions: FunctionMetrics[];
   lastModified: Date;
+  git?: GitMetrics;
   type: string;
+  // 0 to 100, higher is healthier; health is the band the score falls in
+  score: number;
   health: 'healthy' | 'warning' | 'critical';
-  issues: string[];
+  issues: FileIssue[];
+  // Named metrics contributed by other extensions through the API
+  customMetrics?: { [name: string]: number };
+  // Folder config files that adjusted thresholds or rules, nearest first
+  configFiles?: string[];
+}
+
+// Codes of the built-in rules; rule providers contribute issues with their own codes
+export type IssueCode = 'complexity' | 'size' | 'age' | 'duplication' | 'cycle' | 'unused' | 'analysis';
+export type IssueSeverity = 'error' | 'warning' | 'info';
+
+// Built-in rules switched on or off by issue code; rules that are not listed stay on
+export type RuleSettings = { [code: string]: boolean };
+
+export interface FileIssue {
+  code: IssueCode | string;
+  severity: IssueSeverity;
+  message: string;
+  // 1-based lines, like FunctionMetrics; absent when the issue concerns the whole file
+  range?: { startLine: number; endLine: number };
+}
+
+// The content-derived part of FileMetrics, which is what the persistent cache stores
+export interface ContentMetrics {
+  kind: FileKind;
+  lines: number;
+  sloc: number;
+  commentLines: number;
+  blankLines: number;
+  complexity: number;
+  totalComplexity: number;
+  functions: FunctionMetrics[];
+}
+
+// How a metric turns into a share of its weight. `linear` takes half at the warning threshold, all of it at
+// critical and keeps growing up to double; `step` takes half at warning and all at critical, like a checklist
+export type ScoreCurve = 'linear' | 'step';
+export type ScoredMetric = 'complexity' | 'size' | 'age' | 'duplication' | 'cycle' | 'penalty';
+
+export interface HealthScoring {
+  // Points deducted from 100 when a metric reaches its critical threshold; `penalty` counts per rule provider point
+  weights: { [metric in ScoredMetric]: number };
+  curves: { [metric in 'complexity' | 'size' | 'age' | 'duplication']: ScoreCurve };
+  // Scores below `warning` make a file warning, below `critical` critical
+  bands: { warning: number; critical: number };
 }
 
 export interface HealthThresholds {
   complexity: { warning: number; critical: number };
-  size: { warning: number; critical: number };
+  // Kilobytes by default; `metric: 'sloc'` measures source lines of code instead
+  size: { warning: number; critical: number; metric?: 'kilobytes' | 'sloc' };
   age: { warning: number; critical: number };
+  // Percentage of duplicated lines; optional so older settings keep working
+  duplication?: { warning: number; critical: number };
+  // Kilobytes; binary assets are scored on this alone
+  binarySize?: { warning: number; critical: number };
+  // Any part may be left out to keep its defaults
+  scoring?: { [part in keyof HealthScoring]?: Partial<HealthScoring[part]> };
+}
+
+// What metric and rule providers add on top of the built-in analysis
+export interface MetricContribution {
+  metrics: { [name: string]: number };
+  issues: FileIssue[];
+  // Penalty points, each lowering the health score by the `penalty` weight
+  penalty: number;
+}
+
+// Results of workspace-wide analyses, which need every file before any one file can be scored
+export interface CrossFileMetrics {
+  duplication?: FileDuplication;
+  dependencies?: FileDependencies;
+}
+
+export interface FileStamp {
+  mtime: number;
+  size: number;
 }
 
 export class FileAnalyzer {
+  // Bump whenever content analysis changes so persisted metrics are recomputed
+  static readonly ANALYZER_VERSION = 4;
+
+  static readonly DEFAULT_THRESHOLDS: HealthThresholds = {
+    complexity: { warning: 10, critical: 20 },
+    size: { warning: 500, critical: 1000 },
+    age: { warning: 30, critical: 90 },
+    duplication: { warning: 10, critical: 30 },
+    binarySize: { warning: 512, critical: 2048 }
+  };
+
+  static readonly DEFAULT_SCORING: HealthScoring = {
+    weights: { complexity: 40, size: 30, age: 15, duplication: 30, cycle: 15, penalty: 15 },
+    curves: { complexity: 'linear', size: 'linear', age: 'linear', duplication: 'linear' },
+    bands: { warning: 90, critical: 60 }
+  };
+
+  // Files with more clones list only the largest ones
+  private static readonly MAX_DUPLICATION_ISSUES = 5;
+
+  // Known binary formats; anything else is sniffed
+  private static readonly BINARY_EXTENSIONS = new Set([
+    '.png', '.jpg', '.jpeg', '.gif', '.ico', '.webp', '.bmp', '.db', '.sqlite', '.pdf', '.zip', '.gz', '.tgz',
+    '.jar', '.woff', '.woff2', '.ttf', '.otf', '.eot', '.mp3', '.mp4', '.wav', '.exe', '.dll', '.so', '.dylib',
+    '.wasm', '.class', '.pyc', '.vsix'
+  ]);
+
+  // Lock files are written by package managers; the rest say so in a comment within their first lines
+  private static readonly GENERATED_NAMES = new Set(['package-lock.json', 'npm-shrinkwrap.json', 'pnpm-lock.yaml']);
+  private static readonly GENERATED_MARKER = /^\s*(\/\/|\/\*|\*|#|--|<!--).*(@generated\b|\bCode generated\b.*\bDO NOT EDIT\b|<auto-generated\b)/;
+  private static readonly HEADER_LINES = 10;
+
   private static readonly FILE_TYPE_ICONS = new Map([
     // Programming languages
     ['.ts', 'typescript'],
@@ -94,160 +224,331 @@ export class FileAnalyzer {
     ['.lock', 'lock']
   ]);
 
-  static async analyzeFile(uri: vscode.Uri): Promise<FileMetrics> {
-    try {
-      const stat = await vscode.workspace.fs.stat(uri);
-      const content = await vscode.workspace.fs.readFile(uri);
-      const text = Buffer.from(content).toString('utf8');
-      
-      const ext = path.extname(uri.fsPath).toLowerCase();
-      const basename = path.basename(uri.fsPath).toLowerCase();
-      
-      const lines = text.split('\n').length;
-      const size = stat.size;
-      const lastModified = new Date(stat.mtime);
-      const complexity = this.calculateComplexity(text, ext);
-      const type = this.getFileType(ext, basename);
-      
-      const thresholds = this.getHealthThresholds();
-      const { health, issues } = this.assessHealth(lines, size, complexity, lastModified, thresholds);
-      
-      return {
-        lines,
-        size,
-        complexity,
-        lastModified,
-        type,
-        health,
-        issues
-      };
-    } catch (error) {
-      return {
-        lines: 0,
-        size: 0,
-        complexity: 0,
-        lastModified: new Date(),
-        type: 'unknown',
-        health: 'critical',
-        issues: [`Failed to analyze: ${error instanceof Error ? error.message : 'Unknown error'}`]
-      };
+  /**
+   * Combines content metrics with file stamps and git history into health-assessed metrics.
+   * Reading files and settings is left to the caller, so this runs inside and outside VS Code.
+   */
+  static createMetrics(
+    filePath: string,
+    stat: FileStamp,
+    content: ContentMetrics,
+    git: GitMetrics | undefined,
+    thresholds: HealthThresholds,
+    contribution?: MetricContribution,
+    crossFile?: CrossFileMetrics,
+    rules: RuleSettings = {}
+  ): FileMetrics {
+    const ext = path.extname(filePath).toLowerCase();
+    const basename = path.basename(filePath).toLowerCase();
+    
+    const { kind, lines, sloc, commentLines, blankLines, complexity, totalComplexity, functions } = content;
+    const size = stat.size;
+    const lastModified = new Date(stat.mtime);
+    const type = this.getFileType(ext, basename);
+    
+    // Checkouts reset mtime, so tracked files are aged by their last commit instead
+    const lastChanged = git ? git.lastCommitDate : lastModified;
+    
+    const duplication = crossFile?.duplication;
+    const duplicatedLines = duplication?.duplicatedLines ?? 0;
+    const duplicationPercent = lines > 0 ? Math.round(duplicatedLines / lines * 100) : 0;
+    const fanIn = crossFile?.dependencies?.importedBy.length ?? 0;
+    const fanOut = crossFile?.dependencies?.imports.length ?? 0;
+    const { score, health, issues } = kind === 'binary'
+      ? this.assessBinaryHealth(size, thresholds, rules)
+      : kind === 'generated'
+        ? { score: 100, health: 'healthy' as const, issues: [] }
+        : this.assessHealth(
+          sloc, size, complexity, duplicationPercent, crossFile?.dependencies, lastChanged, thresholds, rules,
+          contribution?.penalty ?? 0
+        );
+
+    // Point complexity issues at the function that drives the score
+    const worstFunction = functions.find(fn => fn.complexity === complexity);
+    const complexityIssue = issues.find(issue => issue.code === 'complexity');
+    if (complexityIssue && worstFunction) {
+      complexityIssue.range = { startLine: worstFunction.startLine, endLine: worstFunction.endLine };
     }
-  }
 
-  private static calculateComplexity(content: string, ext: string): number {
-    let complexity = 0;
+    // Each clone is reported where it sits, naming the copy it duplicates
+    const duplicationSeverity = issues.find(issue => issue.code === 'duplication')?.severity ?? 'info';
+    const duplicationClones = rules.duplication === false ? [] : duplication?.clones ?? [];
+    const duplicationIssues = duplicationClones.slice(0, this.MAX_DUPLICATION_ISSUES).map(clone => ({
+      code: 'duplication',
+      severity: duplicationSeverity,
+      message: `${clone.endLine - clone.startLine + 1} lines duplicated in ${clone.other.file}:${clone.other.startLine}`,
+      range: { startLine: clone.startLine, endLine: clone.endLine }
+    }));
     
-    // Basic complexity indicators
-    const complexityPatterns = [
-      /\bif\b/gi,
-      /\belse\b/gi,
-      /\bfor\b/gi,
-      /\bwhile\b/gi,
-      /\bswitch\b/gi,
-      /\bcase\b/gi,
-      /\btry\b/gi,
-      /\bcatch\b/gi,
-      /\bfunction\b/gi,
-      /\bclass\b/gi,
-      /\binterface\b/gi,
-      /=>|{|}|\[|\]/g, // Brackets and arrows
-    ];
-
-    complexityPatterns.forEach(pattern => {
-      const matches = content.match(pattern);
-      if (matches) {
-        complexity += matches.length;
-      }
-    });
-
-    // Language-specific complexity
-    switch (ext) {
-      case '.ts':
-      case '.js':
-      case '.tsx':
-      case '.jsx':
-        // Additional JS/TS complexity
-        complexity += (content.match(/\basync\b/gi) || []).length;
-        complexity += (content.match(/\bawait\b/gi) || []).length;
-        complexity += (content.match(/\bPromise\b/gi) || []).length;
-        break;
-      case '.py':
-        // Python complexity
-        complexity += (content.match(/\bdef\b/gi) || []).length;
-        complexity += (content.match(/\bclass\b/gi) || []).length;
-        complexity += (content.match(/\bexcept\b/gi) || []).length;
-        break;
+    const metrics: FileMetrics = {
+      kind,
+      lines,
+      sloc,
+      commentLines,
+      blankLines,
+      commentDensity: sloc + commentLines > 0 ? Math.round(commentLines / (sloc + commentLines) * 100) : 0,
+      duplicatedLines,
+      duplication: duplicationPercent,
+      fanIn,
+      fanOut,
+      instability: fanIn + fanOut > 0 ? Math.round(fanOut / (fanIn + fanOut) * 100) / 100 : 0,
+      unused: crossFile?.dependencies?.unused ?? false,
+      size,
+      complexity,
+      totalComplexity,
+      functions,
+      lastModified,
+      git,
+      type,
+      score,
+      health,
+      issues: [...issues.filter(issue => issue.code !== 'duplication'), ...duplicationIssues, ...(contribution?.issues ?? [])]
+    };
+    if (contribution && Object.keys(contribution.metrics).length > 0) {
+      metrics.customMetrics = contribution.metrics;
+    }
+    return metrics;
+  }
+
+  static createFailedMetrics(error: unknown): FileMetrics {
+    return {
+      kind: 'source',
+      lines: 0,
+      sloc: 0,
+      commentLines: 0,
+      blankLines: 0,
+      commentDensity: 0,
+      duplicatedLines: 0,
+      duplication: 0,
+      fanIn: 0,
+      fanOut: 0,
+      instability: 0,
+      unused: false,
+      size: 0,
+      complexity: 0,
+      totalComplexity: 0,
+      functions: [],
+      lastModified: new Date(),
+      type: 'unknown',
+      score: 0,
+      health: 'critical',
+      issues: [{
+        code: 'analysis',
+        severity: 'error',
+        message: `Failed to analyze: ${error instanceof Error ? error.message : 'Unknown error'}`
+      }]
+    };
+  }
+
+  // Content analysis depends on no settings, only on the analyzer; persisted metrics with another key are discarded
+  static getCacheKey(): string {
+    return JSON.stringify({ version: this.ANALYZER_VERSION });
+  }
+
+  static hashContent(content: Uint8Array): string {
+    return createHash('sha1').update(content).digest('hex');
+  }
+
+  static analyzeContent(content: Uint8Array, filePath: string): ContentMetrics {
+    const ext = path.extname(filePath).toLowerCase();
+    const kind = this.getFileKind(content, filePath);
+    if (kind === 'binary') {
+      return { kind, lines: 0, sloc: 0, commentLines: 0, blankLines: 0, complexity: 0, totalComplexity: 0, functions: [] };
     }
 
-    return Math.max(1, Math.floor(complexity / 10));
+    // Generated code is not scored, so the complexity analyzers are spared minified bundles
+    const text = Buffer.from(content).toString('utf8');
+    const type = this.getFileType(ext, path.basename(filePath).toLowerCase());
+    const report = kind === 'generated' ? { max: 0, sum: 0, functions: [] } : LanguageAnalyzers.get(type).analyze(text, ext);
+    return {
+      kind,
+      lines: text.split('\n').length,
+      ...LanguageAnalyzers.countLines(type, text),
+      complexity: report.max,
+      totalComplexity: report.sum,
+      functions: report.functions
+    };
   }
 
-  private static getFileType(ext: string, basename: string): string {
+  static getFileKind(content: Uint8Array, filePath: string): FileKind {
+    const ext = path.extname(filePath).toLowerCase();
+    const basename = path.basename(filePath).toLowerCase();
+    // Text formats never contain NUL bytes, so one near the start means binary
+    const head = content.subarray(0, 8000);
+    if (this.BINARY_EXTENSIONS.has(ext) || head.includes(0)) {
+      return 'binary';
+    }
+
+    if (this.getFileType(ext, basename) === 'lock' || this.GENERATED_NAMES.has(basename) || /\.min\.(js|css)$/.test(basename)) {
+      return 'generated';
+    }
+    const header = Buffer.from(head).toString('utf8').split('\n', this.HEADER_LINES);
+    if (header.some(line => this.GENERATED_MARKER.test(line))) {
+      return 'generated';
+    }
+
+    // Minified scripts and stylesheets pack a whole file onto a few very long lines
+    if (!['.js', '.mjs', '.cjs', '.css'].includes(ext) || content.length < 2048) {
+      return 'source';
+    }
+    const lines = 1 + content.reduce((count, byte) => count + (byte === 0x0a ? 1 : 0), 0);
+    return content.length / lines > 300 ? 'generated' : 'source';
+  }
+
+  static getFileType(ext: string, basename: string): string {
     return this.FILE_TYPE_ICONS.get(ext) || 
            this.FILE_TYPE_ICONS.get(basename) || 
            'file';
   }
 
-  private static getHealthThresholds(): HealthThresholds {
-    const config = vscode.workspace.getConfiguration('verdantView');
-    return config.get('healthThresholds', {
-      complexity: { warning: 10, critical: 20 },
-      size: { warning: 500, critical: 1000 },
-      age: { warning: 30, critical: 90 }
-    });
+  // The configured scoring model, with defaults for anything left out
+  static getScoring(thresholds: HealthThresholds): HealthScoring {
+    const scoring = thresholds.scoring;
+    return {
+      weights: { ...this.DEFAULT_SCORING.weights, ...scoring?.weights },
+      curves: { ...this.DEFAULT_SCORING.curves, ...scoring?.curves },
+      bands: { ...this.DEFAULT_SCORING.bands, ...scoring?.bands }
+    };
+  }
+
+  // Share of a metric's weight that a value costs, from 0 below the warning threshold up to 2
+  static getScorePenalty(value: number, limits: { warning: number; critical: number }, curve: ScoreCurve): number {
+    if (value < limits.warning) {
+      return 0;
+    }
+    if (curve === 'step' || limits.critical <= limits.warning) {
+      return value >= limits.critical ? 1 : 0.5;
+    }
+    return Math.min(2, 0.5 + (value - limits.warning) / (limits.critical - limits.warning) / 2);
+  }
+
+  private static getHealthBand(score: number, scoring: HealthScoring): 'healthy' | 'warning' | 'critical' {
+    if (score < scoring.bands.critical) {
+      return 'critical';
+    }
+    return score < scoring.bands.warning ? 'warning' : 'healthy';
   }
 
   private static assessHealth(
-    lines: number, 
+    sloc: number,
     size: number, 
     complexity: number, 
-    lastModified: Date, 
-    thresholds: HealthThresholds
-  ): { health: 'healthy' | 'warning' | 'critical'; issues: string[] } {
-    const issues: string[] = [];
-    let healthScore = 0;
+    duplication: number,
+    dependencies: FileDependencies | undefined,
+    lastChanged: Date, 
+    thresholds: HealthThresholds,
+    rules: RuleSettings,
+    penalty: number
+  ): { score: number; health: 'healthy' | 'warning' | 'critical'; issues: FileIssue[] } {
+    const scoring = this.getScoring(thresholds);
+    const issues: FileIssue[] = [];
+    let score = 100 - penalty * scoring.weights.penalty;
+    // Rules switched off by a folder config neither report nor score
+    const enabled = (code: string) => rules[code] !== false;
+    const deduct = (metric: Exclude<ScoredMetric, 'penalty'>, share: number) => {
+      if (enabled(metric)) {
+        score -= scoring.weights[metric] * share;
+      }
+    };
+    const report = (issue: FileIssue) => {
+      if (enabled(issue.code)) {
+        issues.push(issue);
+      }
+    };
 
     const now = new Date();
-    const daysSinceModified = Math.floor((now.getTime() - lastModified.getTime()) / (1000 * 60 * 60 * 24));
+    const daysSinceModified = Math.floor((now.getTime() - lastChanged.getTime()) / (1000 * 60 * 60 * 24));
     const sizeKB = Math.floor(size / 1024);
 
     // Check complexity
+    deduct('complexity', this.getScorePenalty(complexity, thresholds.complexity, scoring.curves.complexity));
     if (complexity >= thresholds.complexity.critical) {
-      healthScore += 2;
-      issues.push(`High complexity (${complexity})`);
+      report({ code: 'complexity', severity: 'error', message: `High complexity (${complexity})` });
     } else if (complexity >= thresholds.complexity.warning) {
-      healthScore += 1;
-      issues.push(`Moderate complexity (${complexity})`);
+      report({ code: 'complexity', severity: 'warning', message: `Moderate complexity (${complexity})` });
     }
 
-    // Check size
-    if (sizeKB >= thresholds.size.critical) {
-      healthScore += 2;
-      issues.push(`Large file (${sizeKB}KB)`);
-    } else if (sizeKB >= thresholds.size.warning) {
-      healthScore += 1;
-      issues.push(`Medium file (${sizeKB}KB)`);
+    // Check size, in kilobytes or source lines so license headers and doc comments do not count
+    const bySloc = thresholds.size.metric === 'sloc';
+    const fileSize = bySloc ? sloc : sizeKB;
+    const sizeLabel = bySloc ? `${sloc} SLOC` : `${sizeKB}KB`;
+    deduct('size', this.getScorePenalty(fileSize, thresholds.size, scoring.curves.size));
+    if (fileSize >= thresholds.size.critical) {
+      report({ code: 'size', severity: 'error', message: `Large file (${sizeLabel})` });
+    } else if (fileSize >= thresholds.size.warning) {
+      report({ code: 'size', severity: 'warning', message: `Medium file (${sizeLabel})` });
+    }
+
+    // Check duplication; the issues themselves are per clone, so only the severity is kept
+    const duplicationThresholds = thresholds.duplication;
+    if (duplicationThresholds) {
+      deduct('duplication', this.getScorePenalty(duplication, duplicationThresholds, scoring.curves.duplication));
+    }
+    if (duplicationThresholds && duplication >= duplicationThresholds.critical) {
+      report({ code: 'duplication', severity: 'error', message: `Heavily duplicated (${duplication}%)` });
+    } else if (duplicationThresholds && duplication >= duplicationThresholds.warning) {
+      report({ code: 'duplication', severity: 'warning', message: `Duplicated code (${duplication}%)` });
+    }
+
+    // Check dependency cycles and unused files; a withered file is not unhealthy in itself
+    if (dependencies?.cycle) {
+      deduct('cycle', 1);
+      report({ code: 'cycle', severity: 'warning', message: `Circular dependency: ${dependencies.cycle.join(' → ')}` });
+    }
+    if (dependencies?.unused) {
+      report({ code: 'unused', severity: 'info', message: 'Possibly unused: not imported from any entry point' });
     }
 
     // Check age
+    deduct('age', this.getScorePenalty(daysSinceModified, thresholds.age, scoring.curves.age));
     if (daysSinceModified >= thresholds.age.critical) {
-      healthScore += 1;
-      issues.push(`Not modified for ${daysSinceModified} days`);
+      report({ code: 'age', severity: 'warning', message: `Not modified for ${daysSinceModified} days` });
     } else if (daysSinceModified >= thresholds.age.warning) {
-      issues.push(`Last modified ${daysSinceModified} days ago`);
+      report({ code: 'age', severity: 'info', message: `Last modified ${daysSinceModified} days ago` });
+    }
+
+    const rounded = Math.max(0, Math.min(100, Math.round(score)));
+    return { score: rounded, health: this.getHealthBand(rounded, scoring), issues };
+  }
+
+  // Images, fonts and other assets have no code to assess, only their weight
+  private static assessBinaryHealth(
+    size: number,
+    thresholds: HealthThresholds,
+    rules: RuleSettings
+  ): { score: number; health: 'healthy' | 'warning' | 'critical'; issues: FileIssue[] } {
+    const scoring = this.getScoring(thresholds);
+    const sizeKB = Math.floor(size / 1024);
+    const limits = thresholds.binarySize ?? this.DEFAULT_THRESHOLDS.binarySize!;
+    if (rules.size === false) {
+      return { score: 100, health: 'healthy', issues: [] };
     }
 
-    // Determine overall health
-    let health: 'healthy' | 'warning' | 'critical';
-    if (healthScore >= 3) {
-      health = 'critical';
-    } else if (healthScore >= 1) {
-      health = 'warning';
-    } else {
-      health = 'healthy';
+    const share = this.getScorePenalty(sizeKB, limits, scoring.curves.size);
+    const score = Math.max(0, Math.round(100 - scoring.weights.size * share));
+    const issues: FileIssue[] = [];
+    if (sizeKB >= limits.critical) {
+      issues.push({ code: 'size', severity: 'error', message: `Large binary asset (${sizeKB}KB)` });
+    } else if (sizeKB >= limits.warning) {
+      issues.push({ code: 'size', severity: 'warning', message: `Heavy binary asset (${sizeKB}KB)` });
     }
+    return { score, health: this.getHealthBand(score, scoring), issues };
+  }
+
+  // Generated files are left out of health rates, which would otherwise rise with every lockfile and bundle
+  static isScored(metrics: Pick<FileMetrics, 'kind'>): boolean {
+    return metrics.kind !== 'generated';
+  }
+
+  // Over source files only: binary and generated files have no complexity to average
+  static getAverageComplexity(metrics: FileMetrics[]): number {
+    const sources = metrics.filter(file => file.kind === 'source');
+    return sources.length > 0 ? sources.reduce((sum, file) => sum + file.complexity, 0) / sources.length : 0;
+  }
 
-    return { health, issues };
+  // Hotspots are files that are both complex and frequently changed
+  static getHotspotScore(metrics: FileMetrics): number {
+    return (metrics.git?.commitCount ?? 0) * metrics.totalComplexity;
   }
 
   static getIconForFileType(type: string, health: 'healthy' | 'warning' | 'critical'): string {
@@ -0,0 +1,167 @@
+import * as path from 'path';
+import * as ts from 'typescript';
+import { minimatch } from 'minimatch';
+import { HealthThresholds, RuleSettings } from './fileAnalyzer';
+
+// Any threshold, or any one limit of it, may be overridden
+export type ThresholdOverrides = { [K in keyof HealthThresholds]?: Partial<NonNullable<HealthThresholds[K]>> };
+
+export interface FolderSettings {
+  healthThresholds?: ThresholdOverrides;
+  // Globs relative to the config file's folder; matching files are left out of the garden
+  exclude?: string[];
+  // Built-in rules by issue code, e.g. `{ "duplication": false }`
+  rules?: RuleSettings;
+}
+
+export interface FolderConfigFile extends FolderSettings {
+  // Stops the search for config files in enclosing folders
+  root?: boolean;
+  // Applied in order after the folder-wide settings; `files` globs without a slash match at any depth
+  overrides?: (FolderSettings & { files: string[] })[];
+}
+
+export interface EffectiveSettings {
+  thresholds: HealthThresholds;
+  rules: RuleSettings;
+  excluded: boolean;
+  // Config files that applied, nearest first
+  sources: string[];
+}
+
+/**
+ * Hierarchical `.verdantrc.json` files. Each applies to its folder and everything below it;
+ * a file's settings merge every config from the outermost folder inwards, so the nearest wins.
+ * Config files are keyed like the files they apply to, e.g. by URI path or relative path.
+ */
+export class FolderConfigs {
+  static readonly FILE_NAME = '.verdantrc.json';
+
+  private configs = new Map<string, FolderConfigFile>();
+
+  static isConfigFile(file: string): boolean {
+    return path.posix.basename(file) === this.FILE_NAME;
+  }
+
+  // Throws on invalid JSON, leaving the file without a config
+  set(file: string, content: string): void {
+    this.configs.delete(file);
+    const { config, error } = ts.parseConfigFileTextToJson(file, content);
+    if (error) {
+      throw new Error(`Invalid JSON in ${file}: ${ts.flattenDiagnosticMessageText(error.messageText, '\n')}`);
+    }
+    this.configs.set(file, FolderConfigs.readConfig(config ?? {}));
+  }
+
+  delete(file: string): void {
+    this.configs.delete(file);
+  }
+
+  resolve(file: string, thresholds: HealthThresholds): EffectiveSettings {
+    const settings: EffectiveSettings = { thresholds, rules: {}, excluded: false, sources: [] };
+    this.findLayers(file).forEach(({ configFile, layers, matches }) => {
+      // Mapped rather than tested with `some`, which would stop at the first layer that applies
+      const applied = layers.map(layer => FolderConfigs.apply(settings, layer, matches));
+      if (applied.includes(true)) {
+        settings.sources.unshift(configFile);
+      }
+    });
+    return settings;
+  }
+
+  // Cheaper than `resolve` for deciding what to analyze at all
+  isExcluded(file: string): boolean {
+    return this.findLayers(file).some(({ layers, matches }) => layers.some(layer => layer.exclude && matches(layer.exclude)));
+  }
+
+  // Settings that apply to the file, from the outermost config inwards, each followed by its matching overrides
+  private findLayers(file: string): { configFile: string; layers: FolderSettings[]; matches: (patterns: string[]) => boolean }[] {
+    const configs = Array.from(this.configs.entries())
+      .filter(([configFile]) => {
+        const folder = path.posix.dirname(configFile);
+        return folder === '.' ? !file.startsWith('/') : file.startsWith(`${folder}/`);
+      })
+      .sort(([a], [b]) => b.length - a.length);
+
+    // Configs beyond the nearest root are ignored
+    const rootIndex = configs.findIndex(([, config]) => config.root);
+    const applicable = rootIndex < 0 ? configs : configs.slice(0, rootIndex + 1);
+
+    return applicable.reverse().map(([configFile, config]) => {
+      const folder = path.posix.dirname(configFile);
+      const relativePath = folder === '.' ? file : file.slice(folder.length + 1);
+      const matches = (patterns: string[]) =>
+        patterns.some(pattern => minimatch(relativePath, pattern, { dot: true, matchBase: !pattern.includes('/') }));
+      const overrides = (config.overrides ?? []).filter(override => matches(override.files));
+      return { configFile, layers: [config, ...overrides], matches };
+    });
+  }
+
+  // Returns whether the settings changed anything
+  private static apply(settings: EffectiveSettings, config: FolderSettings, matches: (patterns: string[]) => boolean): boolean {
+    let applied = false;
+    if (config.healthThresholds) {
+      const thresholds: { [key: string]: object | undefined } = { ...settings.thresholds };
+      Object.entries(config.healthThresholds).forEach(([key, value]) => {
+        thresholds[key] = key === 'scoring'
+          ? FolderConfigs.mergeScoring(settings.thresholds.scoring, value as HealthThresholds['scoring'])
+          : { ...thresholds[key], ...value };
+      });
+      settings.thresholds = thresholds as unknown as HealthThresholds;
+      applied = true;
+    }
+    if (config.rules) {
+      settings.rules = { ...settings.rules, ...config.rules };
+      applied = true;
+    }
+    if (config.exclude && matches(config.exclude)) {
+      settings.excluded = true;
+      applied = true;
+    }
+    return applied;
+  }
+
+  // Scoring nests one level deeper, so weights, curves and bands each merge on their own
+  private static mergeScoring(scoring: HealthThresholds['scoring'], overrides: HealthThresholds['scoring']): HealthThresholds['scoring'] {
+    return {
+      ...scoring,
+      ...overrides,
+      weights: { ...scoring?.weights, ...overrides?.weights },
+      curves: { ...scoring?.curves, ...overrides?.curves },
+      bands: { ...scoring?.bands, ...overrides?.bands }
+    };
+  }
+
+  // Keeps only well-typed settings, like the CLI config reader
+  private static readConfig(value: { [key: string]: unknown }): FolderConfigFile {
+    const config: FolderConfigFile = this.readSettings(value);
+    if (typeof value.root === 'boolean') {
+      config.root = value.root;
+    }
+    if (Array.isArray(value.overrides)) {
+      config.overrides = value.overrides
+        .filter(override => override && typeof override === 'object' && override.files !== undefined)
+        .map(override => ({
+          ...this.readSettings(override),
+          files: Array.isArray(override.files) ? override.files.map(String) : [String(override.files)]
+        }));
+    }
+    return config;
+  }
+
+  private static readSettings(value: { [key: string]: unknown }): FolderSettings {
+    const settings: FolderSettings = {};
+    if (value.healthThresholds && typeof value.healthThresholds === 'object') {
+      settings.healthThresholds = value.healthThresholds as ThresholdOverrides;
+    }
+    if (Array.isArray(value.exclude)) {
+      settings.exclude = value.exclude.map(String);
+    }
+    if (value.rules && typeof value.rules === 'object') {
+      settings.rules = Object.fromEntries(
+        Object.entries(value.rules).filter((entry): entry is [string, boolean] => typeof entry[1] === 'boolean')
+      );
+    }
+    return settings;
+  }
+}
@@ -0,0 +1,107 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { FileMetrics } from './fileAnalyzer';
+import { GardenProvider } from './gardenProvider';
+
+type Health = FileMetrics['health'];
+
+const HEALTH_RANK = { healthy: 0, warning: 1, critical: 2 };
+
+const BADGES: { [health in Health]?: string } = {
+  warning: '!',
+  critical: '‼'
+};
+
+/**
+ * Tints files and folders in the Explorer and editor tabs by garden health.
+ * Folders take the worst health of anything beneath them; healthy files are left undecorated.
+ */
+export class GardenDecorationProvider implements vscode.FileDecorationProvider, vscode.Disposable {
+  private _onDidChangeFileDecorations = new vscode.EventEmitter<vscode.Uri | vscode.Uri[] | undefined>();
+  readonly onDidChangeFileDecorations = this._onDidChangeFileDecorations.event;
+
+  private files = new Map<string, FileMetrics>();
+  private folders = new Map<string, Health>();
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(private provider: GardenProvider) {
+    this.disposables.push(
+      this._onDidChangeFileDecorations,
+      provider.onDidChangeMetrics(() => this.update()),
+      vscode.workspace.onDidChangeConfiguration(e => {
+        if (e.affectsConfiguration('verdantView.enableFileDecorations')) {
+          this._onDidChangeFileDecorations.fire(undefined);
+        }
+      })
+    );
+  }
+
+  provideFileDecoration(uri: vscode.Uri): vscode.FileDecoration | undefined {
+    const config = vscode.workspace.getConfiguration('verdantView');
+    if (!config.get<boolean>('enableFileDecorations', true)) {
+      return undefined;
+    }
+
+    const metrics = this.files.get(uri.toString());
+    if (metrics) {
+      if (metrics.health === 'healthy') {
+        return undefined;
+      }
+      return new vscode.FileDecoration(
+        BADGES[metrics.health],
+        `Garden: ${metrics.health} (${metrics.issues.map(issue => issue.message).join(', ')})`,
+        this.getColor(metrics.health)
+      );
+    }
+
+    const folderHealth = this.folders.get(uri.toString());
+    if (folderHealth && folderHealth !== 'healthy') {
+      return new vscode.FileDecoration(undefined, `Garden: contains ${folderHealth} files`, this.getColor(folderHealth));
+    }
+    return undefined;
+  }
+
+  dispose(): void {
+    this.disposables.forEach(disposable => disposable.dispose());
+  }
+
+  // Rebuilt from the whole garden because one file can change the roll-up of every ancestor
+  private async update(): Promise<void> {
+    const plants = await this.provider.getAllPlants();
+    const changed = new Set([...this.files.keys(), ...this.folders.keys()]);
+
+    this.files.clear();
+    this.folders.clear();
+    plants.forEach(plant => {
+      this.files.set(plant.uri.toString(), plant.metrics);
+      changed.add(plant.uri.toString());
+
+      const workspaceFolder = vscode.workspace.getWorkspaceFolder(plant.uri);
+      if (!workspaceFolder) {
+        return;
+      }
+
+      let folderPath = path.dirname(plant.uri.fsPath);
+      while (true) {
+        const key = vscode.Uri.file(folderPath).toString();
+        const current = this.folders.get(key);
+        if (!current || HEALTH_RANK[plant.metrics.health] > HEALTH_RANK[current]) {
+          this.folders.set(key, plant.metrics.health);
+        }
+        changed.add(key);
+
+        const parentPath = path.dirname(folderPath);
+        if (folderPath === workspaceFolder.uri.fsPath || parentPath === folderPath) {
+          break;
+        }
+        folderPath = parentPath;
+      }
+    });
+
+    this._onDidChangeFileDecorations.fire(Array.from(changed, key => vscode.Uri.parse(key)));
+  }
+
+  private getColor(health: Health): vscode.ThemeColor {
+    return new vscode.ThemeColor(health === 'critical' ? 'verdantView.criticalForeground' : 'verdantView.warningForeground');
+  }
+}
@@ -0,0 +1,116 @@
+import * as vscode from 'vscode';
+import { FileIssue } from './fileAnalyzer';
+import { GardenProvider, PlantItem } from './gardenProvider';
+
+type SeveritySetting = 'default' | 'error' | 'warning' | 'information' | 'hint' | 'off';
+
+const SEVERITIES: { [setting in Exclude<SeveritySetting, 'default' | 'off'>]: vscode.DiagnosticSeverity } = {
+  error: vscode.DiagnosticSeverity.Error,
+  warning: vscode.DiagnosticSeverity.Warning,
+  information: vscode.DiagnosticSeverity.Information,
+  hint: vscode.DiagnosticSeverity.Hint
+};
+
+const ISSUE_SEVERITIES: { [severity in FileIssue['severity']]: vscode.DiagnosticSeverity } = {
+  error: vscode.DiagnosticSeverity.Error,
+  warning: vscode.DiagnosticSeverity.Warning,
+  info: vscode.DiagnosticSeverity.Information
+};
+
+/**
+ * Publishes garden issues to the Problems panel, following the garden as files are re-analyzed.
+ */
+export class GardenDiagnostics implements vscode.Disposable {
+  private collection = vscode.languages.createDiagnosticCollection('verdantView');
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(private provider: GardenProvider) {
+    this.disposables.push(
+      this.collection,
+      provider.onDidChangeMetrics(uris => uris ? this.updateFiles(uris) : this.updateAll()),
+      vscode.window.tabGroups.onDidChangeTabs(() => {
+        if (this.getScope() === 'openEditors') {
+          this.updateAll();
+        }
+      }),
+      vscode.workspace.onDidChangeConfiguration(e => {
+        if (e.affectsConfiguration('verdantView.enableDiagnostics') ||
+            e.affectsConfiguration('verdantView.diagnosticsScope') ||
+            e.affectsConfiguration('verdantView.diagnosticSeverity')) {
+          this.updateAll();
+        }
+      })
+    );
+  }
+
+  dispose(): void {
+    this.disposables.forEach(disposable => disposable.dispose());
+  }
+
+  private async updateAll(): Promise<void> {
+    const plants = await this.provider.getAllPlants();
+    const openFiles = this.getOpenFiles();
+
+    this.collection.clear();
+    plants.forEach(plant => this.publish(plant, openFiles));
+  }
+
+  private async updateFiles(uris: vscode.Uri[]): Promise<void> {
+    const plants = new Map((await this.provider.getAllPlants()).map(plant => [plant.uri.toString(), plant]));
+    const openFiles = this.getOpenFiles();
+
+    uris.forEach(uri => {
+      const plant = plants.get(uri.toString());
+      if (plant) {
+        this.publish(plant, openFiles);
+      } else {
+        this.collection.delete(uri);
+      }
+    });
+  }
+
+  // openFiles is undefined when diagnostics cover the whole workspace
+  private publish(plant: PlantItem, openFiles: Set<string> | undefined): void {
+    const config = vscode.workspace.getConfiguration('verdantView');
+    if (!config.get<boolean>('enableDiagnostics', true) || (openFiles && !openFiles.has(plant.uri.toString()))) {
+      this.collection.delete(plant.uri);
+      return;
+    }
+
+    const severities = config.get<{ [code: string]: SeveritySetting | undefined }>('diagnosticSeverity', {});
+    const diagnostics = plant.metrics.issues.flatMap(issue => {
+      const setting = severities[issue.code] ?? 'default';
+      if (setting === 'off') {
+        return [];
+      }
+
+      // Whole-file issues sit on the first line; complexity issues on the function that causes them
+      const line = issue.range ? issue.range.startLine - 1 : 0;
+      const diagnostic = new vscode.Diagnostic(
+        new vscode.Range(line, 0, line, Number.MAX_SAFE_INTEGER),
+        issue.message,
+        setting === 'default' ? ISSUE_SEVERITIES[issue.severity] : SEVERITIES[setting]
+      );
+      diagnostic.source = 'VerdantView';
+      diagnostic.code = issue.code;
+      return [diagnostic];
+    });
+
+    this.collection.set(plant.uri, diagnostics);
+  }
+
+  private getScope(): 'workspace' | 'openEditors' {
+    return vscode.workspace.getConfiguration('verdantView').get('diagnosticsScope', 'workspace');
+  }
+
+  private getOpenFiles(): Set<string> | undefined {
+    if (this.getScope() !== 'openEditors') {
+      return undefined;
+    }
+
+    return new Set(vscode.window.tabGroups.all
+      .flatMap(group => group.tabs)
+      .filter(tab => tab.input instanceof vscode.TabInputText)
+      .map(tab => (tab.input as vscode.TabInputText).uri.toString()));
+  }
+}
@@ -0,0 +1,141 @@
+import { minimatch } from 'minimatch';
+import { FileMetrics } from './fileAnalyzer';
+
+// Withered files are unused rather than unhealthy, so that state cuts across health
+export type HealthFilter = 'healthy' | 'warning' | 'critical' | 'withered';
+
+export type RangeOperator = '>=' | '<=' | '>' | '<' | '=';
+
+export interface MetricRange {
+  // A numeric FileMetrics field, `size` in kilobytes, `age` in days, `commits`, or a custom metric
+  metric: string;
+  operator: RangeOperator;
+  value: number;
+}
+
+// Every part that is set must match; an empty filter shows everything
+export interface GardenFilter {
+  // Glob on the workspace-relative path
+  path?: string;
+  types?: string[];
+  // Matches files in any of the listed states
+  health?: HealthFilter[];
+  ranges?: MetricRange[];
+  // Case-insensitive search in the file name
+  text?: string;
+}
+
+const HEALTH_STATES: HealthFilter[] = ['healthy', 'warning', 'critical', 'withered'];
+const RANGE = /^([A-Za-z][\w.-]*)(>=|<=|>|<|=)(-?\d+(?:\.\d+)?)$/;
+
+/**
+ * Parses, prints and applies garden filters. The query language has one term per word:
+ * `path:src/**`, `type:typescript,python`, `health:warning,critical`, metric ranges such as
+ * `complexity>=15` or `lines>400`, and any other words as a file name search.
+ */
+export class GardenFilters {
+  // Throws on terms that can never match, so the input box can say why
+  static parse(query: string): GardenFilter {
+    const filter: GardenFilter = {};
+    const words: string[] = [];
+    query.split(/\s+/).filter(Boolean).forEach(term => {
+      const range = term.match(RANGE);
+      const colon = term.indexOf(':');
+      const key = colon > 0 ? term.slice(0, colon).toLowerCase() : '';
+      const value = term.slice(colon + 1);
+
+      if (range) {
+        filter.ranges = [...(filter.ranges ?? []), { metric: range[1], operator: range[2] as RangeOperator, value: Number(range[3]) }];
+      } else if (key === 'path') {
+        filter.path = value;
+      } else if (key === 'type') {
+        filter.types = value.split(',').filter(Boolean).map(type => type.toLowerCase());
+      } else if (key === 'health') {
+        const states = value.split(',').filter(Boolean).map(state => state.toLowerCase());
+        const unknown = states.find(state => !HEALTH_STATES.includes(state as HealthFilter));
+        if (unknown) {
+          throw new Error(`Unknown health state '${unknown}'; use ${HEALTH_STATES.join(', ')}`);
+        }
+        filter.health = states as HealthFilter[];
+      } else {
+        words.push(term);
+      }
+    });
+    if (words.length > 0) {
+      filter.text = words.join(' ');
+    }
+    return filter;
+  }
+
+  // The query that parses back into the filter
+  static format(filter: GardenFilter): string {
+    const terms: string[] = [];
+    if (filter.path) {
+      terms.push(`path:${filter.path}`);
+    }
+    if (filter.types?.length) {
+      terms.push(`type:${filter.types.join(',')}`);
+    }
+    if (filter.health?.length) {
+      terms.push(`health:${filter.health.join(',')}`);
+    }
+    filter.ranges?.forEach(({ metric, operator, value }) => terms.push(`${metric}${operator}${value}`));
+    if (filter.text) {
+      terms.push(filter.text);
+    }
+    return terms.join(' ');
+  }
+
+  static isEmpty(filter: GardenFilter): boolean {
+    return this.format(filter) === '';
+  }
+
+  static matches(filter: GardenFilter, relativePath: string, metrics: FileMetrics): boolean {
+    if (filter.path && !minimatch(relativePath, filter.path, { dot: true, matchBase: !filter.path.includes('/') })) {
+      return false;
+    }
+    if (filter.types?.length && !filter.types.includes(metrics.type)) {
+      return false;
+    }
+    if (filter.health?.length && !filter.health.some(state => state === 'withered' ? metrics.unused : metrics.health === state)) {
+      return false;
+    }
+    if (filter.ranges?.some(range => !this.inRange(this.getMetricValue(metrics, range.metric), range))) {
+      return false;
+    }
+    if (filter.text) {
+      const name = relativePath.slice(relativePath.lastIndexOf('/') + 1).toLowerCase();
+      return filter.text.toLowerCase().split(' ').every(word => name.includes(word));
+    }
+    return true;
+  }
+
+  // Undefined for metrics the file does not have, which no range matches
+  static getMetricValue(metrics: FileMetrics, metric: string): number | undefined {
+    switch (metric) {
+      case 'size':
+        return Math.round(metrics.size / 1024);
+      case 'age': {
+        const lastChanged = metrics.git ? metrics.git.lastCommitDate : metrics.lastModified;
+        return Math.floor((Date.now() - lastChanged.getTime()) / (1000 * 60 * 60 * 24));
+      }
+      case 'commits':
+        return metrics.git?.commitCount ?? 0;
+    }
+    const value = (metrics as unknown as { [key: string]: unknown })[metric];
+    return typeof value === 'number' ? value : metrics.customMetrics?.[metric];
+  }
+
+  private static inRange(value: number | undefined, { operator, value: limit }: MetricRange): boolean {
+    if (value === undefined) {
+      return false;
+    }
+    switch (operator) {
+      case '>=': return value >= limit;
+      case '<=': return value <= limit;
+      case '>': return value > limit;
+      case '<': return value < limit;
+      default: return value === limit;
+    }
+  }
+}
@@ -0,0 +1,379 @@
+import * as vscode from 'vscode';
+import { FileAnalyzer, FileMetrics } from './fileAnalyzer';
+import { WorkspaceAnalyzer } from './workspaceAnalyzer';
+import { PlantItem } from './gardenProvider';
+
+export interface GardenMapNode {
+  name: string;
+  lines: number;
+  size: number;
+  complexity: number;
+  health: FileMetrics['health'];
+  files: number;
+  uri?: string;
+  details?: string[];
+  issues?: string[];
+  children?: GardenMapNode[];
+}
+
+const HEALTH_RANK = { healthy: 0, warning: 1, critical: 2 };
+
+// Builds a folder hierarchy from workspace-relative paths with folder totals rolled up
+export function buildGardenMap(plants: PlantItem[]): GardenMapNode {
+  const root: GardenMapNode = { name: 'Garden', lines: 0, size: 0, complexity: 0, health: 'healthy', files: 0, children: [] };
+
+  plants.forEach(plant => {
+    const segments = vscode.workspace.asRelativePath(plant.uri).split('/');
+    let folder = root;
+
+    segments.slice(0, -1).forEach(segment => {
+      let child = folder.children!.find(node => node.children && node.name === segment);
+      if (!child) {
+        child = { name: segment, lines: 0, size: 0, complexity: 0, health: 'healthy', files: 0, children: [] };
+        folder.children!.push(child);
+      }
+      folder = child;
+    });
+
+    folder.children!.push({
+      name: segments[segments.length - 1],
+      lines: plant.metrics.lines,
+      size: plant.metrics.size,
+      complexity: plant.metrics.complexity,
+      health: plant.metrics.health,
+      // Generated files take up area but stay out of folder file counts and averages
+      files: FileAnalyzer.isScored(plant.metrics) ? 1 : 0,
+      uri: plant.uri.toString(),
+      details: plant.getMetricDetails(),
+      issues: plant.metrics.issues.map(issue => issue.message)
+    });
+  });
+
+  rollUp(root);
+  return root;
+}
+
+function rollUp(node: GardenMapNode): void {
+  if (!node.children) {
+    return;
+  }
+
+  let complexitySum = 0;
+  node.children.forEach(child => {
+    rollUp(child);
+    node.lines += child.lines;
+    node.size += child.size;
+    node.files += child.files;
+    complexitySum += child.complexity * child.files;
+    if (HEALTH_RANK[child.health] > HEALTH_RANK[node.health]) {
+      node.health = child.health;
+    }
+  });
+
+  // Folders carry the average complexity of the files beneath them
+  node.complexity = node.files > 0 ? complexitySum / node.files : 0;
+}
+
+export function createGardenMapWebview(root: GardenMapNode): string {
+  const thresholds = WorkspaceAnalyzer.getHealthThresholds();
+  // Keep the embedded JSON from closing the script tag early
+  const data = JSON.stringify(root).replace(/</g, '\\u003c');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Garden Map</title>
+    <style>
+        body {
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+            margin: 0;
+            padding: 12px;
+            background: var(--vscode-editor-background);
+            color: var(--vscode-editor-foreground);
+            height: 100vh;
+            box-sizing: border-box;
+            display: flex;
+            flex-direction: column;
+        }
+        .toolbar {
+            display: flex;
+            align-items: center;
+            gap: 16px;
+            margin-bottom: 8px;
+        }
+        .breadcrumb span {
+            cursor: pointer;
+            color: var(--vscode-textLink-foreground);
+        }
+        .breadcrumb span:last-child {
+            cursor: default;
+            color: var(--vscode-editor-foreground);
+            font-weight: bold;
+        }
+        select {
+            background: var(--vscode-dropdown-background);
+            color: var(--vscode-dropdown-foreground);
+            border: 1px solid var(--vscode-dropdown-border);
+        }
+        #map {
+            position: relative;
+            flex: 1;
+        }
+        .node {
+            position: absolute;
+            box-sizing: border-box;
+            overflow: hidden;
+        }
+        .folder {
+            border: 1px solid var(--vscode-panel-border);
+        }
+        .folder-header {
+            font-size: 11px;
+            padding: 1px 4px;
+            white-space: nowrap;
+            cursor: zoom-in;
+            background: var(--vscode-sideBar-background);
+        }
+        .tile {
+            border: 1px solid var(--vscode-editor-background);
+            cursor: pointer;
+            font-size: 11px;
+            padding: 2px 4px;
+            color: #fff;
+            white-space: nowrap;
+        }
+        .tile.collapsed {
+            cursor: zoom-in;
+        }
+        #tooltip {
+            position: fixed;
+            display: none;
+            pointer-events: none;
+            max-width: 360px;
+            padding: 8px 10px;
+            background: var(--vscode-editorHoverWidget-background);
+            border: 1px solid var(--vscode-editorHoverWidget-border);
+            font-size: 12px;
+            z-index: 10;
+        }
+        #tooltip ul {
+            margin: 4px 0 0;
+            padding-left: 16px;
+        }
+    </style>
+</head>
+<body>
+    <div class="toolbar">
+        <div class="breadcrumb" id="breadcrumb"></div>
+        <label>Area <select id="area"><option value="lines">Lines</option><option value="size">Size</option></select></label>
+        <label>Color <select id="color"><option value="health">Health</option><option value="complexity">Complexity</option></select></label>
+    </div>
+    <div id="map"></div>
+    <div id="tooltip"></div>
+    <script>
+        const vscode = acquireVsCodeApi();
+        const root = ${data};
+        const thresholds = ${JSON.stringify(thresholds.complexity)};
+        const HEADER_HEIGHT = 16;
+        const MAX_DEPTH = 3;
+        const map = document.getElementById('map');
+        const tooltip = document.getElementById('tooltip');
+        let trail = [root];
+        let areaKey = 'lines';
+        let colorKey = 'health';
+
+        function value(node) {
+            return Math.max(node[areaKey], 1);
+        }
+
+        function color(node) {
+            if (colorKey === 'health') {
+                return node.health === 'critical' ? '#F44336' : node.health === 'warning' ? '#FF9800' : '#4CAF50';
+            }
+            // Green to red, saturating at the critical complexity threshold
+            const ratio = Math.min(node.complexity / thresholds.critical, 1);
+            return 'hsl(' + Math.round(120 - ratio * 120) + ', 60%, 42%)';
+        }
+
+        // Squarified treemap layout: rows are grown while they keep tiles close to square
+        function squarify(nodes, x, y, w, h) {
+            const result = [];
+            let rest = nodes.slice().sort((a, b) => value(b) - value(a));
+            let total = rest.reduce((sum, node) => sum + value(node), 0);
+
+            while (rest.length > 0 && w > 0 && h > 0) {
+                const side = Math.min(w, h);
+                const scale = (w * h) / total;
+                const worst = (row) => {
+                    const areas = row.map(node => value(node) * scale);
+                    const sum = areas.reduce((a, b) => a + b, 0);
+                    return Math.max(side * side * Math.max(...areas) / (sum * sum), (sum * sum) / (side * side * Math.min(...areas)));
+                };
+
+                let count = 1;
+                while (count < rest.length && worst(rest.slice(0, count + 1)) <= worst(rest.slice(0, count))) {
+                    count++;
+                }
+
+                const row = rest.slice(0, count);
+                const rowArea = row.reduce((sum, node) => sum + value(node), 0) * scale;
+                if (w >= h) {
+                    const rowWidth = rowArea / h;
+                    let offset = y;
+                    row.forEach(node => {
+                        const height = value(node) * scale / rowWidth;
+                        result.push({ node, x, y: offset, w: rowWidth, h: height });
+                        offset += height;
+                    });
+                    x += rowWidth;
+                    w -= rowWidth;
+                } else {
+                    const rowHeight = rowArea / w;
+                    let offset = x;
+                    row.forEach(node => {
+                        const width = value(node) * scale / rowHeight;
+                        result.push({ node, x: offset, y, w: width, h: rowHeight });
+                        offset += width;
+                    });
+                    y += rowHeight;
+                    h -= rowHeight;
+                }
+
+                total -= row.reduce((sum, node) => sum + value(node), 0);
+                rest = rest.slice(count);
+            }
+            return result;
+        }
+
+        function place(element, x, y, w, h) {
+            element.style.left = x + 'px';
+            element.style.top = y + 'px';
+            element.style.width = w + 'px';
+            element.style.height = h + 'px';
+            map.appendChild(element);
+        }
+
+        // path holds the folders from the one shown down to node, so zooming keeps every step in the breadcrumb
+        function renderNode(node, x, y, w, h, depth, path) {
+            const isFolder = !!node.children;
+            const canNest = isFolder && depth < MAX_DEPTH && w > 40 && h > HEADER_HEIGHT * 2;
+
+            if (canNest) {
+                const box = document.createElement('div');
+                box.className = 'node folder';
+                const header = document.createElement('div');
+                header.className = 'folder-header';
+                header.textContent = node.name;
+                header.addEventListener('click', () => zoomInto(path));
+                attachTooltip(header, node);
+                box.appendChild(header);
+                place(box, x, y, w, h);
+                squarify(node.children, x + 1, y + HEADER_HEIGHT, w - 2, h - HEADER_HEIGHT - 1)
+                    .forEach(r => renderNode(r.node, r.x, r.y, r.w, r.h, depth + 1, [...path, r.node]));
+                return;
+            }
+
+            const tile = document.createElement('div');
+            tile.className = 'node tile' + (isFolder ? ' collapsed' : '');
+            tile.style.background = color(node);
+            if (w > 40 && h > 14) {
+                tile.textContent = node.name;
+            }
+            tile.addEventListener('click', () => {
+                if (isFolder) {
+                    zoomInto(path);
+                } else {
+                    vscode.postMessage({ command: 'openFile', uri: node.uri });
+                }
+            });
+            attachTooltip(tile, node);
+            place(tile, x, y, w, h);
+        }
+
+        function attachTooltip(element, node) {
+            element.addEventListener('mousemove', (event) => {
+                const lines = node.details || [
+                    'Files: ' + node.files.toLocaleString(),
+                    'Lines: ' + node.lines.toLocaleString(),
+                    'Size: ' + Math.round(node.size / 1024) + 'KB',
+                    'Average Complexity: ' + node.complexity.toFixed(1),
+                    'Worst Health: ' + node.health
+                ];
+                tooltip.innerHTML = '';
+                const title = document.createElement('strong');
+                title.textContent = node.name;
+                tooltip.appendChild(title);
+                [lines, node.issues || []].forEach((items, index) => {
+                    if (items.length === 0) {
+                        return;
+                    }
+                    if (index === 1) {
+                        const heading = document.createElement('div');
+                        heading.textContent = 'Issues:';
+                        tooltip.appendChild(heading);
+                    }
+                    const list = document.createElement('ul');
+                    items.forEach(text => {
+                        const item = document.createElement('li');
+                        item.textContent = text;
+                        list.appendChild(item);
+                    });
+                    tooltip.appendChild(list);
+                });
+                tooltip.style.display = 'block';
+                tooltip.style.left = Math.min(event.clientX + 12, window.innerWidth - tooltip.offsetWidth - 4) + 'px';
+                tooltip.style.top = Math.min(event.clientY + 12, window.innerHeight - tooltip.offsetHeight - 4) + 'px';
+                event.stopPropagation();
+            });
+            element.addEventListener('mouseleave', () => {
+                tooltip.style.display = 'none';
+            });
+        }
+
+        function zoomInto(path) {
+            trail.push(...path);
+            render();
+        }
+
+        function renderBreadcrumb() {
+            const breadcrumb = document.getElementById('breadcrumb');
+            breadcrumb.innerHTML = '';
+            trail.forEach((node, index) => {
+                if (index > 0) {
+                    breadcrumb.appendChild(document.createTextNode(' / '));
+                }
+                const crumb = document.createElement('span');
+                crumb.textContent = node.name;
+                crumb.addEventListener('click', () => {
+                    trail = trail.slice(0, index + 1);
+                    render();
+                });
+                breadcrumb.appendChild(crumb);
+            });
+        }
+
+        function render() {
+            map.innerHTML = '';
+            tooltip.style.display = 'none';
+            renderBreadcrumb();
+            const current = trail[trail.length - 1];
+            squarify(current.children || [], 0, 0, map.clientWidth, map.clientHeight)
+                .forEach(r => renderNode(r.node, r.x, r.y, r.w, r.h, 1, [r.node]));
+        }
+
+        document.getElementById('area').addEventListener('change', (event) => {
+            areaKey = event.target.value;
+            render();
+        });
+        document.getElementById('color').addEventListener('change', (event) => {
+            colorKey = event.target.value;
+            render();
+        });
+        window.addEventListener('resize', render);
+        render();
+    </script>
+</body>
+</html>`;
+}
@@ -1,29 +1,104 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { FileAnalyzer, FileMetrics } from './fileAnalyzer';
+import { minimatch } from 'minimatch';
+import { CrossFileMetrics, FileAnalyzer, FileMetrics } from './fileAnalyzer';
+import { GitAnalyzer } from './gitAnalyzer';
+import { WorkspaceAnalyzer } from './workspaceAnalyzer';
+import { MetricsCache } from './metricsCache';
+import { ProviderRegistry } from './providerRegistry';
+import { HealthHistory } from './healthHistory';
+import { Baseline, BaselineChange, HealthBaseline } from './healthBaseline';
+import { ReportFormat, ReportGenerator } from './reportGenerator';
+import { CodeClone, DuplicateDetector } from './duplicateDetector';
+import { DependencyGraph } from './dependencyGraph';
+import { FolderConfigs } from './folderConfig';
+import { GardenFilter, GardenFilters } from './gardenFilter';
+
+export type GroupBy = 'none' | 'type' | 'health' | 'folder' | 'tree' | 'hotspots' | 'score' | 'regressions';
+
+export interface GardenSummary {
+  total: number;
+  healthy: number;
+  warning: number;
+  critical: number;
+}
+
+type ChangeType = 'created' | 'changed' | 'deleted';
+type Health = FileMetrics['health'];
+
+export interface FolderStats {
+  files: number;
+  healthy: number;
+  worst: Health;
+  lines: number;
+  complexity: number;
+}
 
-export type GroupBy = 'none' | 'type' | 'health' | 'folder';
-export type HealthFilter = 'all' | 'healthy' | 'warning' | 'critical';
+interface FolderNode {
+  folders: Set<string>;
+  plants: PlantItem[];
+  stats: FolderStats;
+}
+
+interface Garden {
+  plants: Map<string, PlantItem>;
+  summary: GardenSummary;
+}
 
 export class GardenProvider implements vscode.TreeDataProvider<GardenItem> {
   private _onDidChangeTreeData = new vscode.EventEmitter<GardenItem | undefined | void>();
   readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+  private _onDidChangeMetrics = new vscode.EventEmitter<vscode.Uri[] | undefined>();
+  // Fires with the re-analyzed files, or undefined once a full scan completes
+  readonly onDidChangeMetrics = this._onDidChangeMetrics.event;
   
-  private fileCache = new Map<string, FileMetrics>();
+  private gardenLoading?: Promise<Garden>;
+  private scanCancellation?: vscode.CancellationTokenSource;
+  private rootItems: GardenItem[] = [];
+  private folderIndex = new Map<string, FolderNode>();
+  private metricsCache: MetricsCache;
+  private metricsCacheReady: Promise<void>;
+  private history: HealthHistory;
+  private baseline?: Baseline;
+  private baselineReady: Promise<void>;
   private refreshTimer?: NodeJS.Timeout;
   private currentGroupBy: GroupBy = 'none';
-  private currentHealthFilter: HealthFilter = 'all';
+  private currentFilter: GardenFilter = {};
   private fileWatchers: vscode.FileSystemWatcher[] = [];
   private debounceTimer?: NodeJS.Timeout;
+  private changeTimer?: NodeJS.Timeout;
+  // Batches of changes are applied one at a time, so a delete cannot land while an earlier batch is mid-analysis
+  private changesApplied: Promise<void> = Promise.resolve();
+  private pendingChanges = new Map<string, { uri: vscode.Uri; changeType: ChangeType }>();
+  // Workspace-wide analyses, undefined while disabled; the graph resolves imports by URI path
+  private duplicates?: DuplicateDetector;
+  private dependencyGraph?: DependencyGraph;
+  private dependencyKeys = new Map<string, string>();
+  private clones: CodeClone[] = [];
+  // Keyed by URI string, like the plants
+  private crossFile = new Map<string, CrossFileMetrics>();
+  // `.verdantrc.json` files keyed by URI path, reloaded with every scan
+  private folderConfigs = new FolderConfigs();
+
+  constructor(private context: vscode.ExtensionContext, private registry: ProviderRegistry) {
+    this.metricsCache = new MetricsCache(context.storageUri ?? context.globalStorageUri);
+    this.metricsCacheReady = this.metricsCache.load(FileAnalyzer.getCacheKey());
+    this.history = new HealthHistory(context.storageUri ?? context.globalStorageUri);
+    this.baselineReady = this.loadBaseline();
 
-  constructor(private context: vscode.ExtensionContext) {
     this.setupAutoRefresh();
     this.watchConfigChanges();
+    // Providers usually register together while their extensions activate
+    registry.onDidChangeProviders(() => this.debouncedRefresh());
     this.setupFileWatchers();
   }
 
   refresh(): void {
-    this.fileCache.clear();
+    // Supersede any in-flight analysis
+    this.scanCancellation?.cancel();
+    this.gardenLoading = undefined;
+    GitAnalyzer.clearCache();
+    this.baselineReady = this.loadBaseline();
     this._onDidChangeTreeData.fire();
     
     // Update status bar after refresh
@@ -32,12 +107,20 @@ export class GardenProvider implements vscode.TreeDataProvider<GardenItem> {
 
   setGroupBy(groupBy: GroupBy): void {
     this.currentGroupBy = groupBy;
-    this.refresh();
+    this._onDidChangeTreeData.fire();
   }
 
-  setHealthFilter(filter: HealthFilter): void {
-    this.currentHealthFilter = filter;
-    this.refresh();
+  getGroupBy(): GroupBy {
+    return this.currentGroupBy;
+  }
+
+  setFilter(filter: GardenFilter): void {
+    this.currentFilter = filter;
+    this._onDidChangeTreeData.fire();
+  }
+
+  getFilter(): GardenFilter {
+    return this.currentFilter;
   }
 
   getTreeItem(element: GardenItem): vscode.TreeItem {
@@ -58,11 +141,48 @@ export class GardenProvider implements vscode.TreeDataProvider<GardenItem> {
       return element.children;
     }
 
+    if (element instanceof FolderItem) {
+      return this.getFolderChildren(element.folderPath);
+    }
+
     return [];
   }
 
-  private async getRootItems(): Promise<GardenItem[]> {
+  // Analyzes the workspace once per refresh; file changes then patch the loaded garden in place
+  private loadGarden(): Promise<Garden> {
+    if (!this.gardenLoading) {
+      this.scanCancellation?.dispose();
+      const cancellation = new vscode.CancellationTokenSource();
+      this.scanCancellation = cancellation;
+
+      const loading: Promise<Garden> = Promise.resolve(vscode.window.withProgress(
+        { location: { viewId: 'verdantView' }, title: 'Analyzing garden' },
+        progress => this.scanWorkspace(progress, cancellation.token)
+      )).then(
+        garden => this.isSuperseded(loading, cancellation) ? this.loadGarden() : garden,
+        error => {
+          if (this.isSuperseded(loading, cancellation)) {
+            return this.loadGarden();
+          }
+          throw error;
+        }
+      );
+      this.gardenLoading = loading;
+    }
+    return this.gardenLoading;
+  }
+
+  // A newer refresh took over: everyone still waiting on the old scan gets the new garden
+  private isSuperseded(loading: Promise<Garden>, cancellation: vscode.CancellationTokenSource): boolean {
+    return cancellation.token.isCancellationRequested && this.gardenLoading !== loading;
+  }
+
+  private async scanWorkspace(
+    progress: vscode.Progress<{ message?: string; increment?: number }>,
+    token: vscode.CancellationToken
+  ): Promise<Garden> {
     const config = vscode.workspace.getConfiguration('verdantView');
+    const concurrency = Math.max(1, config.get<number>('analysisConcurrency', 8));
     const includePatterns = config.get<string[]>('includePatterns', ['**/*']);
     const excludePatterns = config.get<string[]>('excludePatterns', [
       '**/node_modules/**', '**/dist/**', '**/build/**', '**/.git/**', '**/coverage/**'
@@ -71,72 +191,365 @@ export class GardenProvider implements vscode.TreeDataProvider<GardenItem> {
     // Find all files
     const allFiles: vscode.Uri[] = [];
     for (const pattern of includePatterns) {
-      const files = await vscode.workspace.findFiles(pattern, `{${excludePatterns.join(',')}}`);
+      const files = await vscode.workspace.findFiles(pattern, `{${excludePatterns.join(',')}}`, undefined, token);
       allFiles.push(...files);
     }
 
-    // Remove duplicates
-    const uniqueFiles = Array.from(new Set(allFiles.map(f => f.toString()))).map(s => vscode.Uri.parse(s));
-
-    // Analyze files and create plant items
-    const plantItems: PlantItem[] = [];
-    for (const file of uniqueFiles) {
-      try {
-        let metrics = this.fileCache.get(file.toString());
-        if (!metrics) {
-          metrics = await FileAnalyzer.analyzeFile(file);
-          this.fileCache.set(file.toString(), metrics);
+    // Remove duplicates, and files that folder configs exclude
+    await this.loadFolderConfigs(excludePatterns, token);
+    const uniqueFiles = Array.from(new Set(allFiles.map(f => f.toString())))
+      .map(s => vscode.Uri.parse(s))
+      .filter(uri => !this.folderConfigs.isExcluded(uri.path));
+
+    // Analyze files and create plant items, a bounded number at a time
+    await this.metricsCacheReady;
+    const plants = new Map<string, PlantItem>();
+    const summary: GardenSummary = { total: 0, healthy: 0, warning: 0, critical: 0 };
+    let nextIndex = 0;
+    let analyzed = 0;
+
+    const analyzeNext = async (): Promise<void> => {
+      while (nextIndex < uniqueFiles.length && !token.isCancellationRequested) {
+        const file = uniqueFiles[nextIndex++];
+        try {
+          const metrics = await WorkspaceAnalyzer.analyzeFile(file, this.metricsCache, this.registry, undefined, this.folderConfigs);
+          plants.set(file.toString(), new PlantItem(file, metrics, this.context));
+          this.countPlant(summary, metrics, 1);
+        } catch (error) {
+          console.error(`Failed to analyze file ${file.fsPath}:`, error);
         }
 
-        // Apply health filter
-        if (this.currentHealthFilter !== 'all' && metrics.health !== this.currentHealthFilter) {
-          continue;
-        }
+        analyzed++;
+        progress.report({
+          message: `${analyzed}/${uniqueFiles.length} files`,
+          increment: 100 / uniqueFiles.length
+        });
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(concurrency, uniqueFiles.length) }, analyzeNext));
+
+    if (!token.isCancellationRequested) {
+      await this.analyzeCrossFile(plants, summary, token);
+    }
 
-        plantItems.push(new PlantItem(file, metrics, this.context));
+    if (!token.isCancellationRequested) {
+      await this.history.recordIfDue(Array.from(plants.values()));
+      // Listeners read the garden back through loadGarden, which resolves once this scan returns
+      this._onDidChangeMetrics.fire(undefined);
+    }
+
+    return { plants, summary };
+  }
+
+  // Config files are found regardless of includePatterns, since they shape the analysis of other files
+  private async loadFolderConfigs(excludePatterns: string[], token: vscode.CancellationToken): Promise<void> {
+    this.folderConfigs = new FolderConfigs();
+    const configFiles = await vscode.workspace.findFiles(
+      `**/${FolderConfigs.FILE_NAME}`, `{${excludePatterns.join(',')}}`, undefined, token
+    );
+    for (const uri of configFiles) {
+      try {
+        this.folderConfigs.set(uri.path, Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8'));
       } catch (error) {
-        console.error(`Failed to analyze file ${file.fsPath}:`, error);
+        vscode.window.showWarningMessage(`Ignoring ${vscode.workspace.asRelativePath(uri)}: ${error instanceof Error ? error.message : error}`);
       }
     }
+  }
+
+  // Clones and imports span files, so their metrics are scored once every file has been analyzed
+  private async analyzeCrossFile(
+    plants: Map<string, PlantItem>,
+    summary: GardenSummary,
+    token: vscode.CancellationToken
+  ): Promise<void> {
+    const config = vscode.workspace.getConfiguration('verdantView');
+    this.clones = [];
+    this.crossFile = new Map();
+    this.dependencyKeys = new Map();
+    this.duplicates = config.get<boolean>('enableDuplicateDetection', true)
+      ? new DuplicateDetector(Math.max(10, config.get<number>('duplicationMinTokens', 50)))
+      : undefined;
+    this.dependencyGraph = config.get<boolean>('enableDependencyGraph', true) ? new DependencyGraph() : undefined;
+    if (!this.duplicates && !this.dependencyGraph) {
+      return;
+    }
+
+    for (const plant of plants.values()) {
+      if (token.isCancellationRequested) {
+        return;
+      }
+      await this.indexFile(plant.uri);
+    }
+
+    for (const key of this.updateCrossFile()) {
+      const plant = plants.get(key);
+      if (plant && !token.isCancellationRequested) {
+        const metrics = await WorkspaceAnalyzer.analyzeFile(
+          plant.uri, this.metricsCache, this.registry, this.crossFile.get(key), this.folderConfigs
+        );
+        this.countPlant(summary, plant.metrics, -1);
+        this.countPlant(summary, metrics, 1);
+        plant.update(metrics);
+      }
+    }
+  }
+
+  private async indexFile(uri: vscode.Uri): Promise<void> {
+    const type = FileAnalyzer.getFileType(path.extname(uri.fsPath).toLowerCase(), path.basename(uri.fsPath).toLowerCase());
+    const indexed = (this.duplicates && DuplicateDetector.supports(type)) ||
+      (this.dependencyGraph && (DependencyGraph.supports(type) || DependencyGraph.isManifest(uri.path)));
+    if (!indexed) {
+      this.removeFile(uri);
+      return;
+    }
+
+    try {
+      const data = await vscode.workspace.fs.readFile(uri);
+      const kind = FileAnalyzer.getFileKind(data, uri.fsPath);
+      if (kind === 'binary') {
+        this.removeFile(uri);
+        return;
+      }
+
+      // Generated code is duplicated by nature, but its imports still keep other files in use
+      const content = Buffer.from(data).toString('utf8');
+      if (kind === 'source') {
+        this.duplicates?.setFile(uri.toString(), content, type);
+      } else {
+        this.duplicates?.deleteFile(uri.toString());
+      }
+      this.dependencyGraph?.setFile(uri.path, content, type);
+      this.dependencyKeys.set(uri.path, uri.toString());
+    } catch {
+      this.removeFile(uri);
+    }
+  }
+
+  private removeFile(uri: vscode.Uri): void {
+    this.duplicates?.deleteFile(uri.toString());
+    this.dependencyGraph?.deleteFile(uri.path);
+    this.dependencyKeys.delete(uri.path);
+  }
+
+  // Recomputes clones and the module graph, returning the files whose cross-file metrics changed
+  private updateCrossFile(): Set<string> {
+    const previous = this.crossFile;
+    const toKey = (file: string) => this.dependencyKeys.get(file) ?? file;
+    const describe = (key: string) => vscode.workspace.asRelativePath(vscode.Uri.parse(key));
+
+    this.clones = this.duplicates?.findClones() ?? [];
+    this.crossFile = new Map();
+    DuplicateDetector.summarize(this.clones, describe).forEach((duplication, key) => this.crossFile.set(key, { duplication }));
+    this.dependencyGraph?.analyze(file => describe(toKey(file)), this.getEntryPointMatcher()).forEach((dependencies, file) => {
+      const key = toKey(file);
+      this.crossFile.set(key, {
+        ...this.crossFile.get(key),
+        dependencies: { ...dependencies, imports: dependencies.imports.map(toKey), importedBy: dependencies.importedBy.map(toKey) }
+      });
+    });
+
+    const changed = new Set<string>();
+    new Set([...previous.keys(), ...this.crossFile.keys()]).forEach(key => {
+      if (JSON.stringify(previous.get(key)) !== JSON.stringify(this.crossFile.get(key))) {
+        changed.add(key);
+      }
+    });
+    return changed;
+  }
+
+  private getEntryPointMatcher(): ((file: string) => boolean) | undefined {
+    const config = vscode.workspace.getConfiguration('verdantView');
+    if (!config.get<boolean>('detectUnusedFiles', true)) {
+      return undefined;
+    }
+
+    const patterns = config.get<string[]>('entryPoints', DependencyGraph.DEFAULT_ENTRY_POINTS);
+    return file => {
+      const relativePath = vscode.workspace.asRelativePath(vscode.Uri.parse(this.dependencyKeys.get(file) ?? file), false);
+      return patterns.some(pattern => minimatch(relativePath, pattern, { dot: true }));
+    };
+  }
+
+  // What a file imports and what imports it, as of the last analysis
+  async getDependencies(uri: vscode.Uri): Promise<{ imports: vscode.Uri[]; importedBy: vscode.Uri[] } | undefined> {
+    await this.loadGarden();
+    const dependencies = this.crossFile.get(uri.toString())?.dependencies;
+    return dependencies && {
+      imports: dependencies.imports.map(key => vscode.Uri.parse(key)),
+      importedBy: dependencies.importedBy.map(key => vscode.Uri.parse(key))
+    };
+  }
+
+  // Clone pairs from the last analysis, largest first
+  async getClones(): Promise<CodeClone[]> {
+    await this.loadGarden();
+    return this.clones;
+  }
+
+  private async getRootItems(): Promise<GardenItem[]> {
+    const { plants } = await this.loadGarden();
+    await this.baselineReady;
+    this.rootItems = this.buildRootItems(Array.from(plants.values()));
+    return this.rootItems;
+  }
+
+  private countPlant(summary: GardenSummary, metrics: FileMetrics, delta: number): void {
+    if (!FileAnalyzer.isScored(metrics)) {
+      return;
+    }
+    summary.total += delta;
+    summary[metrics.health] += delta;
+  }
+
+  private buildRootItems(plants: PlantItem[]): GardenItem[] {
+    plants.forEach(item => this.decoratePlant(item));
+
+    // Apply health filter
+    const plantItems = plants.filter(item => this.matchesFilter(item));
 
     // Group items if needed
     if (this.currentGroupBy === 'none') {
       return plantItems.sort((a, b) => a.label!.toString().localeCompare(b.label!.toString()));
     }
 
+    if (this.currentGroupBy === 'hotspots') {
+      return this.rankHotspots(plantItems);
+    }
+
+    if (this.currentGroupBy === 'score') {
+      return this.rankByScore(plantItems);
+    }
+
+    if (this.currentGroupBy === 'regressions') {
+      return this.rankRegressions(plantItems);
+    }
+
+    if (this.currentGroupBy === 'tree') {
+      return this.buildFolderTree(plantItems);
+    }
+
     return this.groupItems(plantItems);
   }
 
+  // Indexes every folder with its direct children and roll-ups; folder items are created lazily on expand
+  private buildFolderTree(items: PlantItem[]): GardenItem[] {
+    this.folderIndex.clear();
+    const roots = new Set<string>();
+
+    items.forEach(item => {
+      const workspaceFolder = vscode.workspace.getWorkspaceFolder(item.uri);
+      const rootPath = workspaceFolder ? workspaceFolder.uri.fsPath : path.dirname(item.uri.fsPath);
+      roots.add(rootPath);
+
+      let folderPath = path.dirname(item.uri.fsPath);
+      this.getFolderNode(folderPath).plants.push(item);
+
+      // Generated files are listed in their folder but left out of its roll-ups
+      const scored = FileAnalyzer.isScored(item.metrics);
+      while (true) {
+        const stats = this.getFolderNode(folderPath).stats;
+        if (scored) {
+          stats.files++;
+          stats.healthy += item.metrics.health === 'healthy' ? 1 : 0;
+          stats.lines += item.metrics.lines;
+          stats.complexity += item.metrics.complexity;
+          if (this.healthRank(item.metrics.health) > this.healthRank(stats.worst)) {
+            stats.worst = item.metrics.health;
+          }
+        }
+
+        const parentPath = path.dirname(folderPath);
+        if (folderPath === rootPath || parentPath === folderPath) {
+          break;
+        }
+        this.getFolderNode(parentPath).folders.add(folderPath);
+        folderPath = parentPath;
+      }
+    });
+
+    // A single workspace folder is shown by its contents rather than as one top-level node
+    if (roots.size === 1) {
+      return this.getFolderChildren(roots.values().next().value!);
+    }
+
+    return Array.from(roots)
+      .sort((a, b) => path.basename(a).localeCompare(path.basename(b)))
+      .map(rootPath => new FolderItem(rootPath, this.folderIndex.get(rootPath)!.stats, this.context));
+  }
+
+  private getFolderNode(folderPath: string): FolderNode {
+    let node = this.folderIndex.get(folderPath);
+    if (!node) {
+      node = {
+        folders: new Set(),
+        plants: [],
+        stats: { files: 0, healthy: 0, worst: 'healthy', lines: 0, complexity: 0 }
+      };
+      this.folderIndex.set(folderPath, node);
+    }
+    return node;
+  }
+
+  private getFolderChildren(folderPath: string): GardenItem[] {
+    const node = this.folderIndex.get(folderPath);
+    if (!node) {
+      return [];
+    }
+
+    const folders = Array.from(node.folders)
+      .sort((a, b) => path.basename(a).localeCompare(path.basename(b)))
+      .map(childPath => new FolderItem(childPath, this.folderIndex.get(childPath)!.stats, this.context));
+    const plants = [...node.plants].sort((a, b) => a.label!.toString().localeCompare(b.label!.toString()));
+
+    return [...folders, ...plants];
+  }
+
+  private healthRank(health: Health): number {
+    return health === 'critical' ? 2 : health === 'warning' ? 1 : 0;
+  }
+
+  private matchesFilter(item: PlantItem): boolean {
+    return GardenFilters.matches(this.currentFilter, vscode.workspace.asRelativePath(item.uri, false), item.metrics);
+  }
+
+  private rankHotspots(items: PlantItem[]): PlantItem[] {
+    return items.sort((a, b) =>
+      FileAnalyzer.getHotspotScore(b.metrics) - FileAnalyzer.getHotspotScore(a.metrics) ||
+      a.label!.toString().localeCompare(b.label!.toString())
+    );
+  }
+
+  // Least healthy first
+  private rankByScore(items: PlantItem[]): PlantItem[] {
+    return items.sort((a, b) =>
+      a.metrics.score - b.metrics.score ||
+      a.label!.toString().localeCompare(b.label!.toString())
+    );
+  }
+
+  // Only files that are new or got worse since the baseline, biggest complexity increase first
+  private rankRegressions(items: PlantItem[]): PlantItem[] {
+    return items
+      .filter(item => item.getBaselineChange()?.regressed)
+      .sort((a, b) =>
+        b.getBaselineChange()!.complexityDelta - a.getBaselineChange()!.complexityDelta ||
+        a.label!.toString().localeCompare(b.label!.toString())
+      );
+  }
+
+  private decoratePlant(plant: PlantItem): void {
+    plant.setHotspotScoreVisible(this.currentGroupBy === 'hotspots');
+    plant.setBaseline(this.baseline);
+  }
+
   private groupItems(items: PlantItem[]): GroupItem[] {
     const groups = new Map<string, PlantItem[]>();
 
     items.forEach(item => {
-      let groupKey: string;
-      let groupLabel: string;
-      let groupIcon: string;
-
-      switch (this.currentGroupBy) {
-        case 'type':
-          groupKey = item.metrics.type;
-          groupLabel = this.getTypeDisplayName(item.metrics.type);
-          groupIcon = this.getTypeIcon(item.metrics.type);
-          break;
-        case 'health':
-          groupKey = item.metrics.health;
-          groupLabel = this.getHealthDisplayName(item.metrics.health);
-          groupIcon = this.getHealthIcon(item.metrics.health);
-          break;
-        case 'folder':
-          const folderPath = path.dirname(item.uri.fsPath);
-          const workspaceFolder = vscode.workspace.getWorkspaceFolder(item.uri);
-          groupKey = folderPath;
-          groupLabel = workspaceFolder 
-            ? path.relative(workspaceFolder.uri.fsPath, folderPath) || 'Root'
-            : path.basename(folderPath);
-          groupIcon = 'folder';
-          break;
-        default:
-          return;
+      const groupKey = this.getGroupKey(item);
+      if (groupKey === undefined) {
+        return;
       }
 
       if (!groups.has(groupKey)) {
@@ -147,21 +560,39 @@ export class GardenProvider implements vscode.TreeDataProvider<GardenItem> {
 
     const groupItems: GroupItem[] = [];
     groups.forEach((children, key) => {
-      const groupLabel = this.getGroupLabel(key);
-      const groupIcon = this.getGroupIcon(key);
       children.sort((a, b) => a.label!.toString().localeCompare(b.label!.toString()));
-      groupItems.push(new GroupItem(groupLabel, children, groupIcon, this.context));
+      groupItems.push(this.createGroup(key, children));
     });
 
     return groupItems.sort((a, b) => a.label!.toString().localeCompare(b.label!.toString()));
   }
 
+  private createGroup(key: string, children: PlantItem[]): GroupItem {
+    return new GroupItem(key, this.getGroupLabel(key), children, this.getGroupIcon(key), this.context);
+  }
+
+  private getGroupKey(item: PlantItem): string | undefined {
+    switch (this.currentGroupBy) {
+      case 'type':
+        return item.metrics.type;
+      case 'health':
+        // Generated files are not scored, so they would otherwise crowd the healthy group
+        return item.metrics.kind === 'generated' ? 'generated' : item.metrics.health;
+      case 'folder':
+        return path.dirname(item.uri.fsPath);
+      default:
+        return undefined;
+    }
+  }
+
   private getGroupLabel(key: string): string {
     switch (this.currentGroupBy) {
       case 'type':
         return this.getTypeDisplayName(key);
       case 'health':
         return this.getHealthDisplayName(key);
+      case 'folder':
+        return this.getFolderDisplayName(key);
       default:
         return key;
     }
@@ -197,11 +628,19 @@ export class GardenProvider implements vscode.TreeDataProvider<GardenItem> {
     return typeNames[type] || `${type.charAt(0).toUpperCase() + type.slice(1)} Files`;
   }
 
+  private getFolderDisplayName(folderPath: string): string {
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(folderPath));
+    return workspaceFolder
+      ? path.relative(workspaceFolder.uri.fsPath, folderPath) || 'Root'
+      : path.basename(folderPath);
+  }
+
   private getHealthDisplayName(health: string): string {
     const healthNames: { [key: string]: string } = {
       'healthy': '🌱 Healthy Files',
       'warning': '⚠️ Files Needing Attention',
-      'critical': '🚨 Critical Files'
+      'critical': '🚨 Critical Files',
+      'generated': '⚙️ Generated Files'
     };
     return healthNames[health] || health;
   }
@@ -288,6 +727,13 @@ export class GardenProvider implements vscode.TreeDataProvider<GardenItem> {
       this.fileWatchers.push(watcher);
     });
 
+    // Folder configs count wherever they are, even outside the include patterns
+    const configWatcher = vscode.workspace.createFileSystemWatcher(`**/${FolderConfigs.FILE_NAME}`);
+    configWatcher.onDidCreate(() => this.debouncedRefresh());
+    configWatcher.onDidChange(() => this.debouncedRefresh());
+    configWatcher.onDidDelete(() => this.debouncedRefresh());
+    this.fileWatchers.push(configWatcher);
+
     // Also watch for workspace folder changes
     vscode.workspace.onDidChangeWorkspaceFolders(() => {
       this.setupFileWatchers();
@@ -295,20 +741,24 @@ export class GardenProvider implements vscode.TreeDataProvider<GardenItem> {
     });
   }
 
+  // The same globs findFiles excludes during a full scan
   private shouldExcludeFile(uri: vscode.Uri, excludePatterns: string[]): boolean {
-    const relativePath = vscode.workspace.asRelativePath(uri);
-    return excludePatterns.some(pattern => {
-      // Convert glob pattern to regex for matching
-      const regexPattern = pattern
-        .replace(/\*\*/g, '.*')
-        .replace(/\*/g, '[^/]*')
-        .replace(/\?/g, '[^/]');
-      const regex = new RegExp(`^${regexPattern}$`);
-      return regex.test(relativePath);
-    });
+    const relativePath = vscode.workspace.asRelativePath(uri, false);
+    return excludePatterns.some(pattern => minimatch(relativePath, pattern, { dot: true }));
   }
 
-  private onFileChanged(uri: vscode.Uri, changeType: 'created' | 'changed' | 'deleted'): void {
+  private onFileChanged(uri: vscode.Uri, changeType: ChangeType): void {
+    // Baselines written by teammates arrive through pulls, so pick them up without a refresh
+    if (uri.toString() === this.getBaselineUri()?.toString()) {
+      this.baselineReady = this.loadBaseline();
+      this.baselineReady.then(() => this._onDidChangeTreeData.fire());
+    }
+
+    // Folder configs have a watcher of their own, and a change to one rescans the garden
+    if (FolderConfigs.isConfigFile(uri.path)) {
+      return;
+    }
+
     // Skip certain file types that don't affect the garden meaningfully
     const fileName = uri.fsPath.toLowerCase();
     const skipExtensions = ['.log', '.tmp', '.temp', '.cache', '.lock'];
@@ -319,9 +769,6 @@ export class GardenProvider implements vscode.TreeDataProvider<GardenItem> {
       return;
     }
     
-    // Remove from cache if it exists
-    this.fileCache.delete(uri.toString());
-    
     // Log the change for debugging
     console.log(`VerdantView: File ${changeType}: ${uri.fsPath}`);
     
@@ -340,8 +787,184 @@ export class GardenProvider implements vscode.TreeDataProvider<GardenItem> {
       );
     }
     
-    // Debounced refresh to avoid too many updates
-    this.debouncedRefresh();
+    // Debounced so bursts of changes are applied together
+    this.queueChange(uri, changeType);
+  }
+
+  private queueChange(uri: vscode.Uri, changeType: ChangeType): void {
+    this.pendingChanges.set(uri.toString(), { uri, changeType });
+
+    if (this.changeTimer) {
+      clearTimeout(this.changeTimer);
+    }
+
+    const config = vscode.workspace.getConfiguration('verdantView');
+    const debounceDelay = config.get<number>('debounceDelay', 300);
+
+    this.changeTimer = setTimeout(() => {
+      this.changeTimer = undefined;
+      this.changesApplied = this.changesApplied
+        .then(() => this.applyPendingChanges())
+        .catch(error => console.error('VerdantView: Failed to apply file changes', error));
+    }, debounceDelay);
+  }
+
+  // Re-analyzes only the changed files and refreshes the tree elements that show them
+  private async applyPendingChanges(): Promise<void> {
+    // An earlier batch may already have picked these changes up
+    if (this.pendingChanges.size === 0) {
+      return;
+    }
+
+    const excludePatterns = vscode.workspace.getConfiguration('verdantView').get<string[]>('excludePatterns', [
+      '**/node_modules/**', '**/dist/**', '**/build/**', '**/.git/**', '**/coverage/**'
+    ]);
+    // Files that the settings or a folder config exclude leave the garden as if deleted
+    const changes = Array.from(this.pendingChanges.values(), ({ uri, changeType }) => ({
+      uri,
+      changeType: this.shouldExcludeFile(uri, excludePatterns) || this.folderConfigs.isExcluded(uri.path)
+        ? 'deleted' as const
+        : changeType
+    }));
+    this.pendingChanges.clear();
+
+    const { plants, summary } = await this.loadGarden();
+
+    // Editing one copy of a clone, or adding an import, changes the metrics of other files too
+    if (this.duplicates || this.dependencyGraph) {
+      for (const { uri, changeType } of changes) {
+        if (changeType === 'deleted') {
+          this.removeFile(uri);
+        } else {
+          await this.indexFile(uri);
+        }
+      }
+      const changedKeys = new Set(changes.map(change => change.uri.toString()));
+      this.updateCrossFile().forEach(key => {
+        const plant = plants.get(key);
+        if (plant && !changedKeys.has(key)) {
+          changes.push({ uri: plant.uri, changeType: 'changed' });
+        }
+      });
+    }
+
+    const changedElements = new Set<GardenItem>();
+    // Folder roll-ups cover every ancestor, so the folder tree is re-indexed from the loaded plants
+    let rootChanged = this.currentGroupBy === 'tree';
+
+    for (const { uri, changeType } of changes) {
+      const key = uri.toString();
+      const existing = plants.get(key);
+
+      if (changeType === 'deleted') {
+        this.metricsCache.delete(uri);
+        if (existing) {
+          plants.delete(key);
+          this.countPlant(summary, existing.metrics, -1);
+          rootChanged = this.removeFromView(existing, changedElements) || rootChanged;
+        }
+        continue;
+      }
+
+      const metrics = await WorkspaceAnalyzer.analyzeFile(
+        uri, this.metricsCache, this.registry, this.crossFile.get(key), this.folderConfigs
+      );
+      if (existing) {
+        this.countPlant(summary, existing.metrics, -1);
+        this.countPlant(summary, metrics, 1);
+        rootChanged = this.updateInView(existing, metrics, changedElements) || rootChanged;
+      } else {
+        const plant = new PlantItem(uri, metrics, this.context);
+        this.decoratePlant(plant);
+        plants.set(key, plant);
+        this.countPlant(summary, metrics, 1);
+        rootChanged = this.addToView(plant, changedElements) || rootChanged;
+      }
+    }
+
+    if (rootChanged) {
+      // Root children are rebuilt from the loaded garden without re-analyzing anything
+      this._onDidChangeTreeData.fire();
+    } else {
+      changedElements.forEach(element => this._onDidChangeTreeData.fire(element));
+    }
+
+    this._onDidChangeMetrics.fire(changes.map(change => change.uri));
+    this.updateStatusBar();
+
+    // Sessions that only see file changes, never a full scan, still get their periodic snapshot
+    await this.history.recordIfDue(Array.from(plants.values()));
+  }
+
+  // The view helpers below return true when only a root rebuild can show the change
+  private addToView(plant: PlantItem, changedElements: Set<GardenItem>): boolean {
+    if (!this.matchesFilter(plant)) {
+      return false;
+    }
+
+    const groupKey = this.getGroupKey(plant);
+    const group = this.rootItems.find(item => item instanceof GroupItem && item.key === groupKey) as GroupItem | undefined;
+    if (!group) {
+      return true;
+    }
+
+    group.addChild(plant);
+    changedElements.add(group);
+    return false;
+  }
+
+  private removeFromView(plant: PlantItem, changedElements: Set<GardenItem>): boolean {
+    const group = this.findGroup(plant);
+    if (!group) {
+      return this.rootItems.includes(plant);
+    }
+
+    group.removeChild(plant);
+    if (group.children.length === 0) {
+      return true;
+    }
+
+    changedElements.add(group);
+    return false;
+  }
+
+  private updateInView(plant: PlantItem, metrics: FileMetrics, changedElements: Set<GardenItem>): boolean {
+    const wasVisible = this.matchesFilter(plant);
+    const oldGroupKey = this.getGroupKey(plant);
+    const oldScore = FileAnalyzer.getHotspotScore(plant.metrics);
+    const oldHealthScore = plant.metrics.score;
+
+    plant.update(metrics);
+
+    if (wasVisible !== this.matchesFilter(plant) || oldGroupKey !== this.getGroupKey(plant)) {
+      return this.removeFromView(plant, changedElements) || this.addToView(plant, changedElements);
+    }
+    if (!wasVisible) {
+      return false;
+    }
+    if (this.currentGroupBy === 'hotspots' && oldScore !== FileAnalyzer.getHotspotScore(metrics)) {
+      return true;
+    }
+    if (this.currentGroupBy === 'score' && oldHealthScore !== metrics.score) {
+      return true;
+    }
+    if (this.currentGroupBy === 'regressions') {
+      return true;
+    }
+
+    // The group is refreshed as well so its health counts stay current
+    const group = this.findGroup(plant);
+    if (group) {
+      group.update();
+      changedElements.add(group);
+    } else {
+      changedElements.add(plant);
+    }
+    return false;
+  }
+
+  private findGroup(plant: PlantItem): GroupItem | undefined {
+    return this.rootItems.find(item => item instanceof GroupItem && item.children.includes(plant)) as GroupItem | undefined;
   }
 
   private debouncedRefresh(): void {
@@ -365,73 +988,106 @@ export class GardenProvider implements vscode.TreeDataProvider<GardenItem> {
     this.fileWatchers = [];
   }
 
-  async exportReport(): Promise<void> {
-    const items = await this.getRootItems();
-    const report = this.generateReport(items);
+  // Writes the report to `destination`, or opens it in an untitled editor when none is given
+  async exportReport(format: ReportFormat = 'markdown', destination?: vscode.Uri): Promise<void> {
+    const plants = await this.getPlants();
+    await this.baselineReady;
+    plants.forEach(plant => plant.setBaseline(this.baseline));
+    const report = ReportGenerator.generate(format, plants.map(plant => ({
+      path: vscode.workspace.asRelativePath(plant.uri),
+      metrics: plant.metrics,
+      change: plant.getBaselineChange()
+    })));
+
+    if (destination) {
+      await vscode.workspace.fs.writeFile(destination, Buffer.from(report, 'utf8'));
+      return;
+    }
     
     const doc = await vscode.workspace.openTextDocument({
       content: report,
-      language: 'markdown'
+      language: ReportGenerator.LANGUAGE_IDS[format]
     });
     await vscode.window.showTextDocument(doc);
   }
 
-  async getGardenSummary(): Promise<{total: number, healthy: number, warning: number, critical: number}> {
-    const items = await this.getRootItems();
-    const plantItems = items.filter(item => item instanceof PlantItem) as PlantItem[];
-    
-    return {
-      total: plantItems.length,
-      healthy: plantItems.filter(item => item.metrics.health === 'healthy').length,
-      warning: plantItems.filter(item => item.metrics.health === 'warning').length,
-      critical: plantItems.filter(item => item.metrics.health === 'critical').length
-    };
+  // Accepts every file's current health; afterwards only regressions stand out
+  async writeBaseline(): Promise<vscode.Uri | undefined> {
+    const baselineUri = this.getBaselineUri();
+    if (!baselineUri) {
+      return undefined;
+    }
+
+    const { plants } = await this.loadGarden();
+    const content = HealthBaseline.create(Array.from(plants.values()).map(plant => ({
+      path: vscode.workspace.asRelativePath(plant.uri),
+      metrics: plant.metrics
+    })));
+    await vscode.workspace.fs.writeFile(baselineUri, Buffer.from(content, 'utf8'));
+
+    this.baseline = HealthBaseline.parse(content);
+    this.baselineReady = Promise.resolve();
+    this._onDidChangeTreeData.fire();
+    return baselineUri;
   }
 
-  private generateReport(items: GardenItem[]): string {
-    const plantItems = items.filter(item => item instanceof PlantItem) as PlantItem[];
-    
-    const total = plantItems.length;
-    const healthy = plantItems.filter(item => item.metrics.health === 'healthy').length;
-    const warning = plantItems.filter(item => item.metrics.health === 'warning').length;
-    const critical = plantItems.filter(item => item.metrics.health === 'critical').length;
-    
-    const totalSize = plantItems.reduce((sum, item) => sum + item.metrics.size, 0);
-    const totalLines = plantItems.reduce((sum, item) => sum + item.metrics.lines, 0);
-    const avgComplexity = plantItems.reduce((sum, item) => sum + item.metrics.complexity, 0) / total;
-
-    let report = `# Verdant Garden Report\n\n`;
-    report += `Generated on: ${new Date().toLocaleString()}\n\n`;
-    report += `## Summary\n\n`;
-    report += `- **Total Files**: ${total}\n`;
-    report += `- **Healthy**: ${healthy} (${Math.round(healthy/total*100)}%)\n`;
-    report += `- **Warning**: ${warning} (${Math.round(warning/total*100)}%)\n`;
-    report += `- **Critical**: ${critical} (${Math.round(critical/total*100)}%)\n`;
-    report += `- **Total Size**: ${Math.round(totalSize/1024)}KB\n`;
-    report += `- **Total Lines**: ${totalLines.toLocaleString()}\n`;
-    report += `- **Average Complexity**: ${avgComplexity.toFixed(1)}\n\n`;
-
-    if (critical > 0) {
-      report += `## Critical Files\n\n`;
-      plantItems
-        .filter(item => item.metrics.health === 'critical')
-        .forEach(item => {
-          report += `- **${item.label}**: ${item.metrics.issues.join(', ')}\n`;
-        });
-      report += `\n`;
+  hasBaseline(): boolean {
+    return this.baseline !== undefined;
+  }
+
+  private getBaselineUri(): vscode.Uri | undefined {
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    if (!workspaceFolder) {
+      return undefined;
     }
 
-    if (warning > 0) {
-      report += `## Files Needing Attention\n\n`;
-      plantItems
-        .filter(item => item.metrics.health === 'warning')
-        .forEach(item => {
-          report += `- **${item.label}**: ${item.metrics.issues.join(', ')}\n`;
-        });
-      report += `\n`;
+    const config = vscode.workspace.getConfiguration('verdantView');
+    const fileName = config.get<string>('baselineFile', HealthBaseline.DEFAULT_FILE_NAME);
+    return vscode.Uri.joinPath(workspaceFolder.uri, fileName);
+  }
+
+  private async loadBaseline(): Promise<void> {
+    const baselineUri = this.getBaselineUri();
+    try {
+      const content = baselineUri ? await vscode.workspace.fs.readFile(baselineUri) : undefined;
+      this.baseline = content ? HealthBaseline.parse(Buffer.from(content).toString('utf8')) : undefined;
+    } catch (error) {
+      // Missing is the normal case; anything else is worth a log line
+      if (!(error instanceof vscode.FileSystemError && error.code === 'FileNotFound')) {
+        console.error('Failed to load health baseline:', error);
+      }
+      this.baseline = undefined;
     }
+  }
+
+  getHistory(): HealthHistory {
+    return this.history;
+  }
 
-    return report;
+  async recordSnapshot(): Promise<void> {
+    const { plants } = await this.loadGarden();
+    await this.history.record(Array.from(plants.values()));
+  }
+
+  async getPlants(): Promise<PlantItem[]> {
+    const { plants } = await this.loadGarden();
+    return Array.from(plants.values()).filter(item => this.matchesFilter(item));
+  }
+
+  async getPlant(uri: vscode.Uri): Promise<PlantItem | undefined> {
+    const { plants } = await this.loadGarden();
+    return plants.get(uri.toString());
+  }
+
+  // Every analyzed file, regardless of the health filter
+  async getAllPlants(): Promise<PlantItem[]> {
+    const { plants } = await this.loadGarden();
+    return Array.from(plants.values());
+  }
+
+  async getGardenSummary(): Promise<GardenSummary> {
+    const { summary } = await this.loadGarden();
+    return { ...summary };
   }
 
   private async updateStatusBar(): Promise<void> {
@@ -451,7 +1107,13 @@ export class GardenProvider implements vscode.TreeDataProvider<GardenItem> {
     if (this.debounceTimer) {
       clearTimeout(this.debounceTimer);
     }
+    if (this.changeTimer) {
+      clearTimeout(this.changeTimer);
+    }
+    this.scanCancellation?.cancel();
+    this.scanCancellation?.dispose();
     this.clearFileWatchers();
+    this.metricsCache.flush();
   }
 }
 
@@ -466,18 +1128,110 @@ export abstract class GardenItem extends vscode.TreeItem {
 }
 
 export class PlantItem extends GardenItem {
+  private showHotspotScore = false;
+  private baseline?: Baseline;
+  private baselineChange?: BaselineChange;
+
   constructor(
     public readonly uri: vscode.Uri,
-    public readonly metrics: FileMetrics,
+    public metrics: FileMetrics,
     context: vscode.ExtensionContext
   ) {
     super(path.basename(uri.fsPath), vscode.TreeItemCollapsibleState.None, context);
 
+    this.id = uri.toString();
+    this.command = { command: 'vscode.open', title: 'Open File', arguments: [uri] };
+    this.contextValue = 'plantItem';
+    this.render();
+  }
+
+  update(metrics: FileMetrics): void {
+    this.metrics = metrics;
+    this.render();
+  }
+
+  setHotspotScoreVisible(visible: boolean): void {
+    if (this.showHotspotScore !== visible) {
+      this.showHotspotScore = visible;
+      this.render();
+    }
+  }
+
+  setBaseline(baseline: Baseline | undefined): void {
+    if (this.baseline !== baseline) {
+      this.baseline = baseline;
+      this.render();
+    }
+  }
+
+  // Undefined when no baseline is loaded
+  getBaselineChange(): BaselineChange | undefined {
+    return this.baselineChange;
+  }
+
+  private render(): void {
+    this.baselineChange = this.baseline
+      ? HealthBaseline.compare(this.metrics, this.baseline.get(vscode.workspace.asRelativePath(this.uri)))
+      : undefined;
     this.tooltip = this.createTooltip();
     this.description = this.createDescription();
     this.iconPath = this.getIcon();
-    this.command = { command: 'vscode.open', title: 'Open File', arguments: [uri] };
-    this.contextValue = 'plantItem';
+  }
+
+  // Metric lines shared by the tooltip and the garden map
+  getMetricDetails(): string[] {
+    const details: string[] = [];
+    if (this.metrics.kind === 'binary') {
+      details.push(`Size: ${Math.round(this.metrics.size/1024)}KB (binary asset)`);
+      details.push(`Type: ${this.metrics.type}`);
+      details.push(`Health: ${this.metrics.health} (score ${this.metrics.score}/100)`);
+      details.push(`Last Modified: ${this.metrics.lastModified.toLocaleDateString()}`);
+      return details;
+    }
+    details.push(`Lines: ${this.metrics.lines.toLocaleString()} (${this.metrics.sloc.toLocaleString()} code, ${this.metrics.commentLines.toLocaleString()} comment, ${this.metrics.blankLines.toLocaleString()} blank)`);
+    details.push(`Comment Density: ${this.metrics.commentDensity}%`);
+    if (this.metrics.duplicatedLines > 0) {
+      details.push(`Duplication: ${this.metrics.duplication}% (${this.metrics.duplicatedLines.toLocaleString()} lines)`);
+    }
+    if (this.metrics.fanIn + this.metrics.fanOut > 0) {
+      details.push(`Dependencies: imports ${this.metrics.fanOut}, imported by ${this.metrics.fanIn} (instability ${this.metrics.instability})`);
+    }
+    details.push(`Size: ${Math.round(this.metrics.size/1024)}KB`);
+    // Generated files skip the complexity analyzers
+    if (this.metrics.functions.length > 0) {
+      details.push(`Complexity: ${this.metrics.complexity} (max of ${this.metrics.functions.length} functions, ${this.metrics.totalComplexity} total)`);
+    } else if (this.metrics.kind === 'source') {
+      details.push(`Complexity: ${this.metrics.complexity}`);
+    }
+    details.push(`Type: ${this.metrics.type}`);
+    details.push(this.metrics.kind === 'generated'
+      ? 'Health: generated, not scored'
+      : `Health: ${this.metrics.health} (score ${this.metrics.score}/100)`);
+    details.push(`Last Modified: ${this.metrics.lastModified.toLocaleDateString()}`);
+    if (this.metrics.git) {
+      const git = this.metrics.git;
+      details.push(`Last Commit: ${git.lastCommitDate.toLocaleDateString()}`);
+      details.push(`Recent Commits: ${git.commitCount} by ${git.authors} author${git.authors === 1 ? '' : 's'}`);
+      details.push(`Churn: +${git.linesAdded} / -${git.linesRemoved}`);
+    }
+    Object.entries(this.metrics.customMetrics ?? {}).forEach(([name, value]) => {
+      details.push(`${name}: ${value}`);
+    });
+    if (this.baselineChange) {
+      details.push(`Baseline: ${this.describeBaselineChange(this.baselineChange)}`);
+    }
+    return details;
+  }
+
+  private describeBaselineChange(change: BaselineChange): string {
+    if (!change.previous) {
+      return 'new since baseline';
+    }
+    const parts = [`complexity ${change.previous.complexity} → ${this.metrics.complexity}`];
+    if (change.previous.health !== this.metrics.health) {
+      parts.push(`${change.previous.health} → ${this.metrics.health}`);
+    }
+    return parts.join(', ');
   }
 
   private createTooltip(): vscode.MarkdownString {
@@ -485,17 +1239,18 @@ export class PlantItem extends GardenItem {
     tooltip.appendMarkdown(`**${path.basename(this.uri.fsPath)}**\n\n`);
     tooltip.appendMarkdown(`📁 ${this.uri.fsPath}\n\n`);
     tooltip.appendMarkdown(`**Metrics:**\n`);
-    tooltip.appendMarkdown(`- Lines: ${this.metrics.lines.toLocaleString()}\n`);
-    tooltip.appendMarkdown(`- Size: ${Math.round(this.metrics.size/1024)}KB\n`);
-    tooltip.appendMarkdown(`- Complexity: ${this.metrics.complexity}\n`);
-    tooltip.appendMarkdown(`- Type: ${this.metrics.type}\n`);
-    tooltip.appendMarkdown(`- Health: ${this.metrics.health}\n`);
-    tooltip.appendMarkdown(`- Last Modified: ${this.metrics.lastModified.toLocaleDateString()}\n\n`);
+    this.getMetricDetails().forEach(detail => {
+      tooltip.appendMarkdown(`- ${detail}\n`);
+    });
+    // Nearest config first; later ones were merged underneath it
+    const configFiles = this.metrics.configFiles ?? [];
+    tooltip.appendMarkdown(`- Thresholds: ${configFiles.length > 0 ? configFiles.join(', ') : 'workspace settings'}\n`);
+    tooltip.appendMarkdown(`\n`);
     
     if (this.metrics.issues.length > 0) {
       tooltip.appendMarkdown(`**Issues:**\n`);
       this.metrics.issues.forEach(issue => {
-        tooltip.appendMarkdown(`- ${issue}\n`);
+        tooltip.appendMarkdown(`- ${issue.message}\n`);
       });
     }
     
@@ -504,18 +1259,44 @@ export class PlantItem extends GardenItem {
 
   private createDescription(): string {
     const config = vscode.workspace.getConfiguration('verdantView');
-    const showMetrics = config.get<string[]>('showMetrics', ['complexity', 'size', 'lastModified']);
+    const showMetrics = config.get<string[]>('showMetrics', ['score', 'complexity', 'size', 'lastModified']);
     
     const parts: string[] = [];
     
-    if (showMetrics.includes('complexity')) {
-      parts.push(`C:${this.metrics.complexity}`);
+    const hotspotScore = FileAnalyzer.getHotspotScore(this.metrics);
+    if (this.showHotspotScore && hotspotScore > 0) {
+      parts.push(`🔥 ${hotspotScore}`);
+    }
+    if (this.baselineChange?.isNew) {
+      parts.push('🆕');
+    }
+    if (showMetrics.includes('score') && this.metrics.kind !== 'generated') {
+      parts.push(`♥${this.metrics.score}`);
+    }
+    // Binary assets have only a size, and generated files are not run through the complexity analyzers
+    const hasText = this.metrics.kind !== 'binary';
+    if (showMetrics.includes('complexity') && this.metrics.kind === 'source') {
+      const delta = HealthBaseline.formatDelta(this.baselineChange?.complexityDelta ?? 0);
+      parts.push(delta ? `C:${this.metrics.complexity} ${delta}` : `C:${this.metrics.complexity}`);
     }
     if (showMetrics.includes('size')) {
       parts.push(`${Math.round(this.metrics.size/1024)}KB`);
     }
+    if (showMetrics.includes('lines') && hasText) {
+      parts.push(`${this.metrics.lines.toLocaleString()}L`);
+    }
+    if (showMetrics.includes('sloc') && hasText) {
+      parts.push(`${this.metrics.sloc.toLocaleString()} SLOC`);
+    }
+    if (showMetrics.includes('commentDensity') && hasText) {
+      parts.push(`💬${this.metrics.commentDensity}%`);
+    }
+    if (showMetrics.includes('duplication') && this.metrics.duplicatedLines > 0) {
+      parts.push(`⧉${this.metrics.duplication}%`);
+    }
     if (showMetrics.includes('lastModified')) {
-      const days = Math.floor((Date.now() - this.metrics.lastModified.getTime()) / (1000 * 60 * 60 * 24));
+      const lastChanged = this.metrics.git ? this.metrics.git.lastCommitDate : this.metrics.lastModified;
+      const days = Math.floor((Date.now() - lastChanged.getTime()) / (1000 * 60 * 60 * 24));
       if (days > 0) {
         parts.push(`${days}d ago`);
       }
@@ -525,7 +1306,7 @@ export class PlantItem extends GardenItem {
   }
 
   private getIcon(): { light: vscode.Uri; dark: vscode.Uri } {
-    const iconName = FileAnalyzer.getIconForFileType(this.metrics.type, this.metrics.health);
+    const iconName = this.metrics.unused ? 'leaf-withered' : FileAnalyzer.getIconForFileType(this.metrics.type, this.metrics.health);
     const iconFile = `${iconName}.svg`;
 
     return {
@@ -541,22 +1322,49 @@ export class PlantItem extends GardenItem {
 
 export class GroupItem extends GardenItem {
   constructor(
-    label: string,
+    public readonly key: string,
+    private groupLabel: string,
     public readonly children: PlantItem[],
     private iconName: string,
     context: vscode.ExtensionContext
   ) {
-    super(`${label} (${children.length})`, vscode.TreeItemCollapsibleState.Expanded, context);
+    super(groupLabel, vscode.TreeItemCollapsibleState.Expanded, context);
     
-    this.tooltip = this.createGroupTooltip();
+    this.id = `group:${key}`;
     this.iconPath = this.getGroupIcon();
     this.contextValue = 'groupItem';
+    this.update();
+  }
+
+  addChild(plant: PlantItem): void {
+    const label = plant.label!.toString();
+    const index = this.children.findIndex(child => child.label!.toString().localeCompare(label) > 0);
+    this.children.splice(index === -1 ? this.children.length : index, 0, plant);
+    this.update();
+  }
+
+  removeChild(plant: PlantItem): void {
+    const index = this.children.indexOf(plant);
+    if (index !== -1) {
+      this.children.splice(index, 1);
+    }
+    this.update();
+  }
+
+  // Recomputes the count and health breakdown after children change
+  update(): void {
+    this.label = `${this.groupLabel} (${this.children.length})`;
+    this.tooltip = this.createGroupTooltip();
   }
 
   private createGroupTooltip(): string {
-    const healthy = this.children.filter(c => c.metrics.health === 'healthy').length;
-    const warning = this.children.filter(c => c.metrics.health === 'warning').length;
-    const critical = this.children.filter(c => c.metrics.health === 'critical').length;
+    const scored = this.children.filter(c => FileAnalyzer.isScored(c.metrics));
+    if (scored.length === 0) {
+      return `${this.children.length} files - not scored`;
+    }
+    const healthy = scored.filter(c => c.metrics.health === 'healthy').length;
+    const warning = scored.filter(c => c.metrics.health === 'warning').length;
+    const critical = scored.filter(c => c.metrics.health === 'critical').length;
     
     return `${this.children.length} files - Healthy: ${healthy}, Warning: ${warning}, Critical: ${critical}`;
   }
@@ -574,3 +1382,57 @@ export class GroupItem extends GardenItem {
     };
   }
 }
+
+export class FolderItem extends GardenItem {
+  constructor(
+    public readonly folderPath: string,
+    public readonly stats: FolderStats,
+    context: vscode.ExtensionContext
+  ) {
+    super(path.basename(folderPath), vscode.TreeItemCollapsibleState.Collapsed, context);
+
+    this.id = `folder:${folderPath}`;
+    this.description = this.createDescription();
+    this.tooltip = this.createTooltip();
+    this.iconPath = this.getIcon();
+    this.contextValue = 'folderItem';
+  }
+
+  private getHealthyPercentage(): number {
+    return this.stats.files > 0 ? Math.round(this.stats.healthy / this.stats.files * 100) : 100;
+  }
+
+  private getAverageComplexity(): string {
+    return (this.stats.files > 0 ? this.stats.complexity / this.stats.files : 0).toFixed(1);
+  }
+
+  private createDescription(): string {
+    return `${this.getHealthyPercentage()}% healthy • ${this.stats.lines.toLocaleString()} lines • C:${this.getAverageComplexity()}`;
+  }
+
+  private createTooltip(): vscode.MarkdownString {
+    const tooltip = new vscode.MarkdownString();
+    tooltip.appendMarkdown(`**${path.basename(this.folderPath)}**\n\n`);
+    tooltip.appendMarkdown(`📁 ${this.folderPath}\n\n`);
+    tooltip.appendMarkdown(`**Roll-up:**\n`);
+    tooltip.appendMarkdown(`- Files: ${this.stats.files.toLocaleString()}\n`);
+    tooltip.appendMarkdown(`- Healthy: ${this.getHealthyPercentage()}%\n`);
+    tooltip.appendMarkdown(`- Worst Health: ${this.stats.worst}\n`);
+    tooltip.appendMarkdown(`- Total Lines: ${this.stats.lines.toLocaleString()}\n`);
+    tooltip.appendMarkdown(`- Average Complexity: ${this.getAverageComplexity()}\n`);
+    return tooltip;
+  }
+
+  private getIcon(): { light: vscode.Uri; dark: vscode.Uri } {
+    const iconFile = this.stats.worst === 'healthy' ? 'folder.svg' : `folder-${this.stats.worst}.svg`;
+
+    return {
+      light: vscode.Uri.file(
+        this.context.asAbsolutePath(path.join('resources', 'light', iconFile))
+      ),
+      dark: vscode.Uri.file(
+        this.context.asAbsolutePath(path.join('resources', 'dark', iconFile))
+      )
+    };
+  }
+}
@@ -0,0 +1,36 @@
+import * as vscode from 'vscode';
+import { GitHistory, GitMetrics } from './gitHistory';
+
+export class GitAnalyzer {
+  // One history load per workspace folder, shared by every file analyzed until the next refresh
+  private static histories = new Map<string, Promise<GitHistory | undefined>>();
+
+  static clearCache(): void {
+    this.histories.clear();
+  }
+
+  /**
+   * Returns git-derived metrics for a file, or undefined when the file is untracked,
+   * outside a repository, or git is not available.
+   */
+  static async getMetrics(uri: vscode.Uri): Promise<GitMetrics | undefined> {
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri);
+    if (!workspaceFolder || uri.scheme !== 'file') {
+      return undefined;
+    }
+
+    const folderPath = workspaceFolder.uri.fsPath;
+    let history = this.histories.get(folderPath);
+    if (!history) {
+      history = GitHistory.load(folderPath, this.getHistoryDays());
+      this.histories.set(folderPath, history);
+    }
+
+    return (await history)?.getMetrics(uri.fsPath);
+  }
+
+  private static getHistoryDays(): number {
+    const config = vscode.workspace.getConfiguration('verdantView');
+    return config.get<number>('gitHistoryDays', 90);
+  }
+}
@@ -0,0 +1,115 @@
+import * as path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+
+const execFileAsync = promisify(execFile);
+
+export interface GitMetrics {
+  lastCommitDate: Date;
+  commitCount: number;
+  authors: number;
+  linesAdded: number;
+  linesRemoved: number;
+}
+
+interface FileHistory {
+  lastCommitDate: Date;
+  commitCount: number;
+  authors: Set<string>;
+  linesAdded: number;
+  linesRemoved: number;
+}
+
+/**
+ * Per-file commit history of one repository, read with two `git log` passes.
+ * Has no VS Code dependency so the command-line analyzer can share it.
+ */
+export class GitHistory {
+  private constructor(readonly root: string, private files: Map<string, FileHistory>) {}
+
+  // Resolves to undefined when cwd is outside a repository or git is not available
+  static async load(cwd: string, historyDays: number): Promise<GitHistory | undefined> {
+    try {
+      const root = (await this.git(cwd, ['rev-parse', '--show-toplevel'])).trim();
+      const files = new Map<string, FileHistory>();
+
+      // Full history, newest first: the first commit seen for a path is its last change
+      const allCommits = await this.git(root, ['log', '--no-renames', '--name-only', '--format=%x1e%ct']);
+      for (const commit of this.splitCommits(allCommits)) {
+        const lastCommitDate = new Date(Number(commit.header) * 1000);
+        for (const line of commit.lines) {
+          if (!files.has(line)) {
+            files.set(line, {
+              lastCommitDate,
+              commitCount: 0,
+              authors: new Set(),
+              linesAdded: 0,
+              linesRemoved: 0
+            });
+          }
+        }
+      }
+
+      // Churn and authorship within the configured window
+      const recentCommits = await this.git(root, [
+        'log', '--no-renames', '--numstat', '--format=%x1e%aE', `--since=${historyDays}.days.ago`
+      ]);
+      for (const commit of this.splitCommits(recentCommits)) {
+        for (const line of commit.lines) {
+          const [added, removed, filePath] = line.split('\t');
+          const file = filePath ? files.get(filePath) : undefined;
+          if (!file) {
+            continue;
+          }
+
+          file.commitCount++;
+          file.authors.add(commit.header.toLowerCase());
+          // Binary files report '-' for both counts
+          file.linesAdded += Number(added) || 0;
+          file.linesRemoved += Number(removed) || 0;
+        }
+      }
+
+      return new GitHistory(root, files);
+    } catch (error) {
+      // stderr, so the CLI keeps stdout for the report
+      console.error(`VerdantView: Git history unavailable for ${cwd}:`, error instanceof Error ? error.message : error);
+      return undefined;
+    }
+  }
+
+  // Returns undefined for untracked files and paths outside the repository
+  getMetrics(filePath: string): GitMetrics | undefined {
+    const relativePath = path.relative(this.root, filePath).split(path.sep).join('/');
+    const file = this.files.get(relativePath);
+    if (!file) {
+      return undefined;
+    }
+
+    return {
+      lastCommitDate: file.lastCommitDate,
+      commitCount: file.commitCount,
+      authors: file.authors.size,
+      linesAdded: file.linesAdded,
+      linesRemoved: file.linesRemoved
+    };
+  }
+
+  private static splitCommits(output: string): { header: string; lines: string[] }[] {
+    return output
+      .split('\x1e')
+      .filter(chunk => chunk.trim().length > 0)
+      .map(chunk => {
+        const [header, ...lines] = chunk.split('\n');
+        return { header: header.trim(), lines: lines.filter(line => line.length > 0) };
+      });
+  }
+
+  private static async git(cwd: string, args: string[]): Promise<string> {
+    const { stdout } = await execFileAsync('git', ['-c', 'core.quotepath=off', ...args], {
+      cwd,
+      maxBuffer: 256 * 1024 * 1024
+    });
+    return stdout;
+  }
+}
@@ -0,0 +1,95 @@
+import { FileIssue, FileMetrics } from './fileAnalyzer';
+
+export interface BaselineEntry {
+  health: FileMetrics['health'];
+  complexity: number;
+  lines: number;
+  issues: FileIssue[];
+}
+
+// Workspace-relative path with forward slashes to the file's state when the baseline was written
+export type Baseline = Map<string, BaselineEntry>;
+
+export interface BaselineChange {
+  // The file did not exist when the baseline was written
+  isNew: boolean;
+  // New, or its health or complexity got worse since the baseline
+  regressed: boolean;
+  previous?: BaselineEntry;
+  complexityDelta: number;
+  linesDelta: number;
+}
+
+interface BaselineFile {
+  version: number;
+  createdAt: string;
+  files: { [path: string]: BaselineEntry };
+}
+
+const HEALTH_RANK = { healthy: 0, warning: 1, critical: 2 };
+
+/**
+ * Snapshots each file's health so legacy problems can be accepted and only regressions reported.
+ */
+export class HealthBaseline {
+  static readonly DEFAULT_FILE_NAME = '.verdant-baseline.json';
+
+  private static readonly VERSION = 1;
+
+  static create(entries: { path: string; metrics: FileMetrics }[]): string {
+    const files: BaselineFile['files'] = {};
+    [...entries]
+      .sort((a, b) => a.path.localeCompare(b.path))
+      .forEach(({ path, metrics }) => {
+        files[path] = {
+          health: metrics.health,
+          complexity: metrics.complexity,
+          lines: metrics.lines,
+          issues: metrics.issues
+        };
+      });
+
+    const baseline: BaselineFile = { version: this.VERSION, createdAt: new Date().toISOString(), files };
+    return JSON.stringify(baseline, null, 2) + '\n';
+  }
+
+  // Accepts baseline files as well as JSON reports, whose `files` is an array of paths with metrics
+  static parse(text: string): Baseline {
+    const data = JSON.parse(text);
+    if (Array.isArray(data?.files)) {
+      return new Map(data.files.map((file: BaselineEntry & { path: string }) => [file.path, {
+        health: file.health,
+        complexity: file.complexity,
+        lines: file.lines,
+        issues: file.issues ?? []
+      }]));
+    }
+    if (data?.files && typeof data.files === 'object') {
+      return new Map(Object.entries(data.files));
+    }
+    throw new Error('Not a VerdantView baseline or JSON report');
+  }
+
+  static compare(metrics: FileMetrics, previous: BaselineEntry | undefined): BaselineChange {
+    if (!previous) {
+      return { isNew: true, regressed: true, complexityDelta: 0, linesDelta: 0 };
+    }
+
+    const complexityDelta = metrics.complexity - previous.complexity;
+    return {
+      isNew: false,
+      regressed: HEALTH_RANK[metrics.health] > HEALTH_RANK[previous.health] || complexityDelta > 0,
+      previous,
+      complexityDelta,
+      linesDelta: metrics.lines - previous.lines
+    };
+  }
+
+  // "▲3" or "▼2"; empty when nothing changed
+  static formatDelta(delta: number): string {
+    if (delta === 0) {
+      return '';
+    }
+    return `${delta > 0 ? '▲' : '▼'}${Math.abs(delta)}`;
+  }
+}
@@ -0,0 +1,145 @@
+import * as vscode from 'vscode';
+import { FileAnalyzer, FileMetrics } from './fileAnalyzer';
+
+export interface GardenSnapshot {
+  timestamp: number;
+  total: number;
+  healthy: number;
+  warning: number;
+  critical: number;
+  averageComplexity: number;
+}
+
+export interface FileHistoryPoint {
+  timestamp: number;
+  complexity: number;
+  lines: number;
+}
+
+interface HistoryFile {
+  snapshots: GardenSnapshot[];
+  // Per-file series keep the first and latest point of each unchanged run: [timestamp, complexity, lines]
+  files: { [path: string]: [number, number, number][] };
+}
+
+/**
+ * Keeps periodic snapshots of garden health in the extension's storage
+ * so trends can be charted over time.
+ */
+export class HealthHistory {
+  private static readonly FILE_NAME = 'health-history.json';
+
+  private data: HistoryFile = { snapshots: [], files: {} };
+  private ready: Promise<void>;
+
+  constructor(private storageUri: vscode.Uri) {
+    this.ready = this.load();
+  }
+
+  async getSnapshots(): Promise<GardenSnapshot[]> {
+    await this.ready;
+    return [...this.data.snapshots];
+  }
+
+  async getFileHistory(uri: vscode.Uri): Promise<FileHistoryPoint[]> {
+    await this.ready;
+    const series = this.data.files[vscode.workspace.asRelativePath(uri)] ?? [];
+    return series.map(([timestamp, complexity, lines]) => ({ timestamp, complexity, lines }));
+  }
+
+  // Records a snapshot when the configured interval has passed since the last one
+  async recordIfDue(plants: { uri: vscode.Uri; metrics: FileMetrics }[]): Promise<boolean> {
+    await this.ready;
+    const config = vscode.workspace.getConfiguration('verdantView');
+    const intervalHours = config.get<number>('historyInterval', 24);
+    const last = this.data.snapshots[this.data.snapshots.length - 1];
+
+    if (intervalHours <= 0 || (last && Date.now() - last.timestamp < intervalHours * 60 * 60 * 1000)) {
+      return false;
+    }
+
+    await this.record(plants);
+    return true;
+  }
+
+  async record(plants: { uri: vscode.Uri; metrics: FileMetrics }[]): Promise<void> {
+    await this.ready;
+    if (plants.length === 0) {
+      return;
+    }
+
+    const timestamp = Date.now();
+    const scored = plants.filter(plant => FileAnalyzer.isScored(plant.metrics));
+    this.data.snapshots.push({
+      timestamp,
+      total: scored.length,
+      healthy: scored.filter(plant => plant.metrics.health === 'healthy').length,
+      warning: scored.filter(plant => plant.metrics.health === 'warning').length,
+      critical: scored.filter(plant => plant.metrics.health === 'critical').length,
+      averageComplexity: FileAnalyzer.getAverageComplexity(plants.map(plant => plant.metrics))
+    });
+
+    // Files missing from this snapshot were deleted or excluded, and their series go with them
+    const files: HistoryFile['files'] = {};
+    plants.forEach(({ uri, metrics }) => {
+      const key = vscode.workspace.asRelativePath(uri);
+      const series = files[key] = this.data.files[key] ?? [];
+      const point: [number, number, number] = [timestamp, metrics.complexity, metrics.lines];
+      const [beforeLast, last] = series.slice(-2);
+      // An unchanged run keeps its first point and a latest point, which moves up to this snapshot
+      if (last && this.isSameValue(last, point) && beforeLast && this.isSameValue(beforeLast, point)) {
+        series[series.length - 1] = point;
+      } else {
+        series.push(point);
+      }
+    });
+    this.data.files = files;
+
+    this.prune();
+    await this.save();
+  }
+
+  private isSameValue(a: [number, number, number], b: [number, number, number]): boolean {
+    return a[1] === b[1] && a[2] === b[2];
+  }
+
+  private prune(): void {
+    const config = vscode.workspace.getConfiguration('verdantView');
+    const maxSnapshots = Math.max(1, config.get<number>('historyMaxSnapshots', 90));
+    if (this.data.snapshots.length <= maxSnapshots) {
+      return;
+    }
+
+    this.data.snapshots = this.data.snapshots.slice(-maxSnapshots);
+    const cutoff = this.data.snapshots[0].timestamp;
+
+    Object.entries(this.data.files).forEach(([key, series]) => {
+      // Keep the last point before the cutoff: it still holds the value at the oldest snapshot
+      const firstKept = series.findIndex(point => point[0] >= cutoff);
+      const start = firstKept === -1 ? series.length - 1 : Math.max(0, firstKept - 1);
+      this.data.files[key] = series.slice(start);
+    });
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const content = await vscode.workspace.fs.readFile(this.getFileUri());
+      this.data = JSON.parse(Buffer.from(content).toString('utf8'));
+    } catch {
+      // No history recorded yet
+    }
+  }
+
+  private async save(): Promise<void> {
+    try {
+      await vscode.workspace.fs.createDirectory(this.storageUri);
+      await vscode.workspace.fs.writeFile(this.getFileUri(), Buffer.from(JSON.stringify(this.data), 'utf8'));
+    } catch (error) {
+      console.error('Failed to save health history:', error);
+    }
+  }
+
+  private getFileUri(): vscode.Uri {
+    return vscode.Uri.joinPath(this.storageUri, HealthHistory.FILE_NAME);
+  }
+}
@@ -0,0 +1,107 @@
+import { BraceAnalyzer } from './braceAnalyzer';
+import { ComplexityAnalyzer, ComplexityReport } from './complexityAnalyzer';
+import { PythonAnalyzer } from './pythonAnalyzer';
+import { LineCounts, SourceSyntax, SourceTokenizer } from './sourceTokenizer';
+
+export interface LanguageAnalyzer {
+  // `ext` tells dialects of one file type apart, e.g. `.ts` and `.js`
+  analyze(content: string, ext: string): ComplexityReport;
+}
+
+// Keyword and bracket counting for file types without an analyzer of their own; reports no functions
+const GENERIC_ANALYZER: LanguageAnalyzer = {
+  analyze(content: string): ComplexityReport {
+    const complexityPatterns = [
+      /\bif\b/gi,
+      /\belse\b/gi,
+      /\bfor\b/gi,
+      /\bwhile\b/gi,
+      /\bswitch\b/gi,
+      /\bcase\b/gi,
+      /\btry\b/gi,
+      /\bcatch\b/gi,
+      /\bfunction\b/gi,
+      /\bclass\b/gi,
+      /\binterface\b/gi,
+      /=>|{|}|\[|\]/g, // Brackets and arrows
+    ];
+
+    const matches = complexityPatterns.reduce((count, pattern) => count + (content.match(pattern) || []).length, 0);
+    const complexity = Math.max(1, Math.floor(matches / 10));
+    return { functions: [], max: complexity, sum: complexity };
+  }
+};
+
+const C_STYLE: SourceSyntax = { lineComment: '//', blockComment: ['/*', '*/'] };
+const HASH_STYLE: SourceSyntax = { lineComment: '#' };
+const MARKUP_STYLE: SourceSyntax = { blockComment: ['<!--', '-->'] };
+
+/**
+ * Complexity analyzers and comment syntaxes keyed by file type, as returned by `FileAnalyzer.getFileType`.
+ */
+export class LanguageAnalyzers {
+  private static readonly analyzers = new Map<string, LanguageAnalyzer>([
+    ['typescript', ComplexityAnalyzer],
+    ['javascript', ComplexityAnalyzer],
+    ['react', ComplexityAnalyzer],
+    ['python', PythonAnalyzer],
+    ['go', BraceAnalyzer.GO],
+    ['rust', BraceAnalyzer.RUST],
+    ['java', BraceAnalyzer.JAVA],
+    ['c', BraceAnalyzer.C],
+    ['cpp', BraceAnalyzer.C]
+  ]);
+
+  // Types without a syntax count every non-blank line as code
+  private static readonly syntaxes = new Map<string, SourceSyntax>([
+    ['typescript', { ...C_STYLE, multilineStrings: ['`'] }],
+    ['javascript', { ...C_STYLE, multilineStrings: ['`'] }],
+    ['react', { ...C_STYLE, multilineStrings: ['`'] }],
+    ['python', PythonAnalyzer.SYNTAX],
+    ['go', BraceAnalyzer.GO.syntax],
+    ['rust', BraceAnalyzer.RUST.syntax],
+    ['java', BraceAnalyzer.JAVA.syntax],
+    ['c', BraceAnalyzer.C.syntax],
+    ['cpp', BraceAnalyzer.C.syntax],
+    ['csharp', C_STYLE],
+    ['php', C_STYLE],
+    ['swift', C_STYLE],
+    ['kotlin', C_STYLE],
+    ['scala', C_STYLE],
+    ['dart', C_STYLE],
+    ['gradle', C_STYLE],
+    ['jenkins', C_STYLE],
+    ['sass', C_STYLE],
+    ['less', C_STYLE],
+    ['css', { blockComment: ['/*', '*/'] }],
+    ['database', { lineComment: '--', blockComment: ['/*', '*/'] }],
+    ['ruby', HASH_STYLE],
+    ['yaml', HASH_STYLE],
+    ['toml', HASH_STYLE],
+    ['settings', HASH_STYLE],
+    ['docker', HASH_STYLE],
+    ['make', HASH_STYLE],
+    ['latex', { lineComment: '%' }],
+    ['html', MARKUP_STYLE],
+    ['xml', MARKUP_STYLE],
+    ['markdown', MARKUP_STYLE],
+    ['vue', MARKUP_STYLE],
+    ['svelte', MARKUP_STYLE]
+  ]);
+
+  static supports(type: string): boolean {
+    return this.analyzers.has(type);
+  }
+
+  static get(type: string): LanguageAnalyzer {
+    return this.analyzers.get(type) ?? GENERIC_ANALYZER;
+  }
+
+  static getSyntax(type: string): SourceSyntax | undefined {
+    return this.syntaxes.get(type);
+  }
+
+  static countLines(type: string, content: string): LineCounts {
+    return SourceTokenizer.countLines(content, this.syntaxes.get(type));
+  }
+}
@@ -0,0 +1,103 @@
+import * as vscode from 'vscode';
+import { ContentMetrics } from './fileAnalyzer';
+
+interface CacheEntry {
+  mtime: number;
+  size: number;
+  hash: string;
+  metrics: ContentMetrics;
+}
+
+interface CacheFile {
+  key: string;
+  entries: { [uri: string]: CacheEntry };
+}
+
+/**
+ * Persists content-derived metrics in the extension's storage so unchanged files
+ * are not re-read and re-parsed across refreshes and sessions.
+ */
+export class MetricsCache {
+  private static readonly FILE_NAME = 'metrics-cache.json';
+  private static readonly SAVE_DELAY = 2000;
+
+  private entries = new Map<string, CacheEntry>();
+  private key = '';
+  private dirty = false;
+  private saveTimer?: NodeJS.Timeout;
+
+  constructor(private storageUri: vscode.Uri) {}
+
+  async load(key: string): Promise<void> {
+    this.key = key;
+    try {
+      const content = await vscode.workspace.fs.readFile(this.getFileUri());
+      const data: CacheFile = JSON.parse(Buffer.from(content).toString('utf8'));
+      if (data.key === key) {
+        this.entries = new Map(Object.entries(data.entries));
+      }
+    } catch {
+      // No cache yet or unreadable: start empty
+    }
+  }
+
+  lookup(uri: vscode.Uri, stat: vscode.FileStat): ContentMetrics | undefined {
+    const entry = this.entries.get(uri.toString());
+    if (entry && entry.mtime === stat.mtime && entry.size === stat.size) {
+      return entry.metrics;
+    }
+    return undefined;
+  }
+
+  lookupByHash(uri: vscode.Uri, hash: string): ContentMetrics | undefined {
+    const entry = this.entries.get(uri.toString());
+    return entry && entry.hash === hash ? entry.metrics : undefined;
+  }
+
+  store(uri: vscode.Uri, stat: vscode.FileStat, hash: string, metrics: ContentMetrics): void {
+    this.entries.set(uri.toString(), { mtime: stat.mtime, size: stat.size, hash, metrics });
+    this.scheduleSave();
+  }
+
+  delete(uri: vscode.Uri): void {
+    if (this.entries.delete(uri.toString())) {
+      this.scheduleSave();
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.scheduleSave();
+  }
+
+  async flush(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = undefined;
+    }
+    if (!this.dirty) {
+      return;
+    }
+
+    this.dirty = false;
+    const data: CacheFile = { key: this.key, entries: Object.fromEntries(this.entries) };
+    try {
+      await vscode.workspace.fs.createDirectory(this.storageUri);
+      await vscode.workspace.fs.writeFile(this.getFileUri(), Buffer.from(JSON.stringify(data), 'utf8'));
+    } catch (error) {
+      console.error('Failed to save metrics cache:', error);
+    }
+  }
+
+  private scheduleSave(): void {
+    this.dirty = true;
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+    }
+    this.saveTimer = setTimeout(() => this.flush(), MetricsCache.SAVE_DELAY);
+  }
+
+  private getFileUri(): vscode.Uri {
+    return vscode.Uri.joinPath(this.storageUri, MetricsCache.FILE_NAME);
+  }
+}
@@ -0,0 +1,85 @@
+import * as vscode from 'vscode';
+import { FileIssue, FileMetrics, MetricContribution } from './fileAnalyzer';
+
+export interface MetricProvider {
+  // Unique id, used in logs when the provider fails
+  readonly id: string;
+  // Named numeric metrics for a file, e.g. { coverage: 82 }; names should be unique across providers
+  provideMetrics(uri: vscode.Uri, metrics: Readonly<FileMetrics>): vscode.ProviderResult<{ [name: string]: number }>;
+}
+
+export interface RuleResult {
+  issues?: FileIssue[];
+  // Penalty points; each lowers the file's 0-100 health score by the `penalty` scoring weight, 15 by default
+  penalty?: number;
+}
+
+export interface RuleProvider {
+  readonly id: string;
+  // Runs after metric providers, so `metrics.customMetrics` holds their contributions
+  evaluate(uri: vscode.Uri, metrics: Readonly<FileMetrics>): vscode.ProviderResult<RuleResult>;
+}
+
+/**
+ * Keeps the metric and rule providers registered by other extensions and collects their contributions.
+ */
+export class ProviderRegistry implements vscode.Disposable {
+  private metricProviders = new Set<MetricProvider>();
+  private ruleProviders = new Set<RuleProvider>();
+  private _onDidChangeProviders = new vscode.EventEmitter<void>();
+  readonly onDidChangeProviders = this._onDidChangeProviders.event;
+
+  registerMetricProvider(provider: MetricProvider): vscode.Disposable {
+    return this.register(this.metricProviders, provider);
+  }
+
+  registerRuleProvider(provider: RuleProvider): vscode.Disposable {
+    return this.register(this.ruleProviders, provider);
+  }
+
+  hasProviders(): boolean {
+    return this.metricProviders.size > 0 || this.ruleProviders.size > 0;
+  }
+
+  // A failing provider is logged and skipped so it cannot break analysis of the garden
+  async collect(uri: vscode.Uri, metrics: FileMetrics): Promise<MetricContribution> {
+    const contribution: MetricContribution = { metrics: {}, issues: [], penalty: 0 };
+
+    for (const provider of this.metricProviders) {
+      try {
+        Object.assign(contribution.metrics, await provider.provideMetrics(uri, metrics));
+      } catch (error) {
+        console.error(`VerdantView: Metric provider '${provider.id}' failed for ${uri.fsPath}:`, error);
+      }
+    }
+
+    const withMetrics: FileMetrics = { ...metrics, customMetrics: contribution.metrics };
+    for (const provider of this.ruleProviders) {
+      try {
+        const result = await provider.evaluate(uri, withMetrics);
+        contribution.issues.push(...(result?.issues ?? []));
+        contribution.penalty += Math.max(0, result?.penalty ?? 0);
+      } catch (error) {
+        console.error(`VerdantView: Rule provider '${provider.id}' failed for ${uri.fsPath}:`, error);
+      }
+    }
+
+    return contribution;
+  }
+
+  dispose(): void {
+    this.metricProviders.clear();
+    this.ruleProviders.clear();
+    this._onDidChangeProviders.dispose();
+  }
+
+  private register<T>(providers: Set<T>, provider: T): vscode.Disposable {
+    providers.add(provider);
+    this._onDidChangeProviders.fire();
+    return new vscode.Disposable(() => {
+      if (providers.delete(provider)) {
+        this._onDidChangeProviders.fire();
+      }
+    });
+  }
+}
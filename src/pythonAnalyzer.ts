@@ -0,0 +1,136 @@
+import { ComplexityAnalyzer, ComplexityReport, FunctionMetrics } from './complexityAnalyzer';
+import { SourceSyntax, SourceTokenizer, Token } from './sourceTokenizer';
+
+interface Unit {
+  name: string;
+  startLine: number;
+  complexity: number;
+  nestingDepth: number;
+}
+
+interface Block {
+  indent: number;
+  kind: 'function' | 'class' | 'nesting';
+  name?: string;
+  unit?: Unit;
+}
+
+/**
+ * Cyclomatic complexity for Python, with blocks taken from indentation rather than braces.
+ */
+export class PythonAnalyzer {
+  static readonly SYNTAX: SourceSyntax = { lineComment: '#', multilineStrings: ['"""', '\'\'\''], docstrings: true };
+
+  // `if` also covers conditional expressions and comprehension filters
+  private static readonly DECISION_KEYWORDS = new Set(['if', 'elif', 'for', 'while', 'except', 'and', 'or']);
+
+  // `elif`, `else`, `except` and `finally` continue their statement at the same depth
+  private static readonly NESTING_KEYWORDS = new Set([
+    'if', 'elif', 'else', 'for', 'while', 'try', 'except', 'finally', 'match'
+  ]);
+
+  private static readonly OPENING_BRACKETS = new Set(['(', '[', '{']);
+  private static readonly CLOSING_BRACKETS = new Set([')', ']', '}']);
+
+  static analyze(content: string): ComplexityReport {
+    const functions: FunctionMetrics[] = [];
+    const topLevel: Unit = { name: '(top level)', startLine: 1, complexity: 1, nestingDepth: 0 };
+    const blocks: Block[] = [];
+    let lastLine = 0;
+
+    // Blocks end at the first line indented no deeper than their header
+    const closeBlocks = (indent: number): void => {
+      while (blocks.length > 0 && blocks[blocks.length - 1].indent >= indent) {
+        const { unit } = blocks.pop()!;
+        if (unit) {
+          functions.push({
+            name: unit.name,
+            startLine: unit.startLine,
+            endLine: lastLine,
+            length: lastLine - unit.startLine + 1,
+            complexity: unit.complexity,
+            nestingDepth: unit.nestingDepth
+          });
+        }
+      }
+    };
+
+    for (const line of this.splitLogicalLines(SourceTokenizer.tokenize(content, this.SYNTAX))) {
+      const indent = line[0].column;
+      closeBlocks(indent);
+
+      const functionIndex = blocks.map(block => block.kind).lastIndexOf('function');
+      const unit = blocks[functionIndex]?.unit ?? topLevel;
+      const opensBlock = line[line.length - 1].text === ':';
+      // `async def`, `async for` and `async with` behave like their plain forms
+      const first = line[0].text === 'async' ? 1 : 0;
+      const keyword = line[first].kind === 'word' ? line[first].text : undefined;
+
+      unit.complexity += this.decisionPoints(line, opensBlock);
+
+      if (opensBlock && keyword === 'def' && line[first + 1]?.kind === 'word') {
+        const container = functionIndex < 0 ? [...blocks].reverse().find(block => block.kind === 'class')?.name : undefined;
+        const name = line[first + 1].text;
+        blocks.push({
+          indent,
+          kind: 'function',
+          unit: { name: container ? `${container}.${name}` : name, startLine: line[0].line, complexity: 1, nestingDepth: 0 }
+        });
+      } else if (opensBlock && keyword === 'class') {
+        blocks.push({ indent, kind: 'class', name: line[first + 1]?.text });
+      } else if (opensBlock && keyword && this.NESTING_KEYWORDS.has(keyword) && (keyword !== 'match' || line.length > 2)) {
+        blocks.push({ indent, kind: 'nesting' });
+        const depth = blocks.slice(functionIndex + 1).filter(block => block.kind === 'nesting').length;
+        unit.nestingDepth = Math.max(unit.nestingDepth, depth);
+      }
+
+      lastLine = SourceTokenizer.getEndLine(line[line.length - 1]);
+    }
+    closeBlocks(0);
+
+    return ComplexityAnalyzer.createReport(functions, topLevel, content.split('\n').length);
+  }
+
+  private static decisionPoints(line: Token[], opensBlock: boolean): number {
+    let points = line.filter(token => token.kind === 'word' && this.DECISION_KEYWORDS.has(token.text)).length;
+
+    // `case` is only a keyword at the start of a match arm; `case _:` is the default
+    if (opensBlock && line[0].text === 'case' && !(line[1]?.text === '_' && line.length === 3)) {
+      points++;
+    }
+    return points;
+  }
+
+  // Joins physical lines continued by open brackets or a trailing backslash into statements
+  private static splitLogicalLines(tokens: Token[]): Token[][] {
+    const lines: Token[][] = [];
+    let current: Token[] = [];
+    let depth = 0;
+    let endLine = 0;
+    let continued = false;
+
+    for (const token of tokens) {
+      if (current.length > 0 && depth === 0 && !continued && token.line > endLine) {
+        lines.push(current);
+        current = [];
+      }
+
+      continued = token.text === '\\';
+      if (continued) {
+        continue;
+      }
+      if (this.OPENING_BRACKETS.has(token.text)) {
+        depth++;
+      } else if (this.CLOSING_BRACKETS.has(token.text)) {
+        depth = Math.max(0, depth - 1);
+      }
+      current.push(token);
+      endLine = SourceTokenizer.getEndLine(token);
+    }
+    if (current.length > 0) {
+      lines.push(current);
+    }
+
+    return lines;
+  }
+}
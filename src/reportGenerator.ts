@@ -0,0 +1,427 @@
+import { FileAnalyzer, FileIssue, FileMetrics, IssueCode } from './fileAnalyzer';
+import { BaselineChange, HealthBaseline } from './healthBaseline';
+
+export type ReportFormat = 'markdown' | 'json' | 'csv' | 'html' | 'sarif';
+
+export interface ReportEntry {
+  // Workspace-relative path with forward slashes
+  path: string;
+  metrics: FileMetrics;
+  // Present when a baseline was loaded
+  change?: BaselineChange;
+}
+
+interface ReportTotals {
+  total: number;
+  // Generated files are counted in the total but have no health
+  generated: number;
+  healthy: number;
+  warning: number;
+  critical: number;
+  totalSize: number;
+  totalLines: number;
+  averageComplexity: number;
+  averageScore: number;
+}
+
+export class ReportGenerator {
+  static readonly FILE_EXTENSIONS: { [format in ReportFormat]: string } = {
+    markdown: 'md',
+    json: 'json',
+    csv: 'csv',
+    html: 'html',
+    sarif: 'sarif'
+  };
+
+  static readonly LANGUAGE_IDS: { [format in ReportFormat]: string } = {
+    markdown: 'markdown',
+    json: 'json',
+    csv: 'plaintext',
+    html: 'html',
+    sarif: 'json'
+  };
+
+  private static readonly HOTSPOT_LIMIT = 20;
+
+  private static readonly SARIF_RULES: { [code in IssueCode]: string } & { [code: string]: string } = {
+    complexity: 'File complexity exceeds the configured threshold',
+    size: 'File size exceeds the configured threshold',
+    age: 'File has not been changed for a long time',
+    duplication: 'Code is duplicated elsewhere in the workspace',
+    cycle: 'File is part of a circular import chain',
+    unused: 'File is not reachable through imports from any entry point',
+    analysis: 'File could not be analyzed'
+  };
+
+  private static readonly SARIF_LEVELS = { error: 'error', warning: 'warning', info: 'note' };
+
+  static generate(format: ReportFormat, entries: ReportEntry[]): string {
+    switch (format) {
+      case 'json':
+        return this.generateJson(entries);
+      case 'csv':
+        return this.generateCsv(entries);
+      case 'html':
+        return this.generateHtml(entries);
+      case 'sarif':
+        return this.generateSarif(entries);
+      default:
+        return this.generateMarkdown(entries);
+    }
+  }
+
+  private static getTotals(entries: ReportEntry[]): ReportTotals {
+    const scored = entries.filter(entry => FileAnalyzer.isScored(entry.metrics));
+    return {
+      total: entries.length,
+      generated: entries.length - scored.length,
+      healthy: scored.filter(entry => entry.metrics.health === 'healthy').length,
+      warning: scored.filter(entry => entry.metrics.health === 'warning').length,
+      critical: scored.filter(entry => entry.metrics.health === 'critical').length,
+      totalSize: entries.reduce((sum, entry) => sum + entry.metrics.size, 0),
+      totalLines: entries.reduce((sum, entry) => sum + entry.metrics.lines, 0),
+      averageComplexity: FileAnalyzer.getAverageComplexity(entries.map(entry => entry.metrics)),
+      averageScore: scored.length > 0 ? scored.reduce((sum, entry) => sum + entry.metrics.score, 0) / scored.length : 100
+    };
+  }
+
+  private static getHotspots(entries: ReportEntry[]): ReportEntry[] {
+    return entries
+      .filter(entry => FileAnalyzer.getHotspotScore(entry.metrics) > 0)
+      .sort((a, b) => FileAnalyzer.getHotspotScore(b.metrics) - FileAnalyzer.getHotspotScore(a.metrics))
+      .slice(0, this.HOTSPOT_LIMIT);
+  }
+
+  // Files that are new or got worse since the baseline, biggest complexity increase first
+  private static getRegressions(entries: ReportEntry[]): ReportEntry[] {
+    return entries
+      .filter(entry => entry.change?.regressed)
+      .sort((a, b) => b.change!.complexityDelta - a.change!.complexityDelta || a.path.localeCompare(b.path));
+  }
+
+  private static describeHealthChange(entry: ReportEntry): string {
+    const previous = entry.change!.previous;
+    if (!previous) {
+      return `new, ${entry.metrics.health}`;
+    }
+    return previous.health === entry.metrics.health ? entry.metrics.health : `${previous.health} → ${entry.metrics.health}`;
+  }
+
+  private static percentage(count: number, total: number): number {
+    return total > 0 ? Math.round(count / total * 100) : 0;
+  }
+
+  private static generateMarkdown(entries: ReportEntry[]): string {
+    const { total, generated, healthy, warning, critical, totalSize, totalLines, averageComplexity, averageScore } = this.getTotals(entries);
+    const scored = total - generated;
+
+    let report = `# Verdant Garden Report\n\n`;
+    report += `Generated on: ${new Date().toLocaleString()}\n\n`;
+    report += `## Summary\n\n`;
+    report += `- **Total Files**: ${total}${generated > 0 ? ` (${generated} generated, not scored)` : ''}\n`;
+    report += `- **Healthy**: ${healthy} (${this.percentage(healthy, scored)}%)\n`;
+    report += `- **Warning**: ${warning} (${this.percentage(warning, scored)}%)\n`;
+    report += `- **Critical**: ${critical} (${this.percentage(critical, scored)}%)\n`;
+    report += `- **Total Size**: ${Math.round(totalSize/1024)}KB\n`;
+    report += `- **Total Lines**: ${totalLines.toLocaleString()}\n`;
+    report += `- **Average Complexity**: ${averageComplexity.toFixed(1)}\n`;
+    report += `- **Average Health Score**: ${averageScore.toFixed(1)}\n\n`;
+
+    // Lowest score first, so the worst file of each band leads
+    const listFiles = (health: string) => entries
+      .filter(entry => entry.metrics.health === health)
+      .sort((a, b) => a.metrics.score - b.metrics.score)
+      .forEach(entry => {
+        report += `- **${entry.path}** (${entry.metrics.score}): ${entry.metrics.issues.map(issue => issue.message).join(', ')}\n`;
+      });
+
+    if (critical > 0) {
+      report += `## Critical Files\n\n`;
+      listFiles('critical');
+      report += `\n`;
+    }
+
+    if (warning > 0) {
+      report += `## Files Needing Attention\n\n`;
+      listFiles('warning');
+      report += `\n`;
+    }
+
+    const hotspots = this.getHotspots(entries);
+    if (hotspots.length > 0) {
+      report += `## Hotspots\n\n`;
+      report += `Files that are both complex and frequently changed. Refactoring these pays off first.\n\n`;
+      report += `| File | Commits | Complexity | Score |\n`;
+      report += `| --- | ---: | ---: | ---: |\n`;
+      hotspots.forEach(entry => {
+        report += `| ${entry.path} | ${entry.metrics.git!.commitCount} | ` +
+          `${entry.metrics.totalComplexity} | ${FileAnalyzer.getHotspotScore(entry.metrics)} |\n`;
+      });
+      report += `\n`;
+    }
+
+    const regressions = this.getRegressions(entries);
+    if (regressions.length > 0) {
+      report += `## Regressions Since Baseline\n\n`;
+      report += `Files that are new or got worse since the baseline was written.\n\n`;
+      report += `| File | Health | Complexity | Change |\n`;
+      report += `| --- | --- | ---: | ---: |\n`;
+      regressions.forEach(entry => {
+        report += `| ${entry.path} | ${this.describeHealthChange(entry)} | ${entry.metrics.complexity} | ` +
+          `${HealthBaseline.formatDelta(entry.change!.complexityDelta)} |\n`;
+      });
+      report += `\n`;
+    }
+
+    return report;
+  }
+
+  private static generateJson(entries: ReportEntry[]): string {
+    return JSON.stringify({
+      generatedAt: new Date().toISOString(),
+      summary: this.getTotals(entries),
+      files: entries.map(entry => ({ path: entry.path, ...entry.metrics, ...(entry.change ? { change: entry.change } : {}) }))
+    }, null, 2);
+  }
+
+  private static generateCsv(entries: ReportEntry[]): string {
+    const header = [
+      'path', 'type', 'kind', 'score', 'health', 'lines', 'sloc', 'commentLines', 'blankLines', 'commentDensity', 'duplication',
+      'fanIn', 'fanOut', 'instability', 'unused',
+      'size', 'complexity', 'totalComplexity', 'functions',
+      'lastModified', 'lastCommit', 'commits', 'authors', 'linesAdded', 'linesRemoved', 'issues'
+    ];
+
+    const rows = entries.map(({ path, metrics }) => [
+      path,
+      metrics.type,
+      metrics.kind,
+      metrics.score,
+      metrics.health,
+      metrics.lines,
+      metrics.sloc,
+      metrics.commentLines,
+      metrics.blankLines,
+      metrics.commentDensity,
+      metrics.duplication,
+      metrics.fanIn,
+      metrics.fanOut,
+      metrics.instability,
+      metrics.unused,
+      metrics.size,
+      metrics.complexity,
+      metrics.totalComplexity,
+      metrics.functions.length,
+      metrics.lastModified.toISOString(),
+      metrics.git ? metrics.git.lastCommitDate.toISOString() : '',
+      metrics.git ? metrics.git.commitCount : '',
+      metrics.git ? metrics.git.authors : '',
+      metrics.git ? metrics.git.linesAdded : '',
+      metrics.git ? metrics.git.linesRemoved : '',
+      metrics.issues.map(issue => issue.message).join('; ')
+    ]);
+
+    return [header, ...rows].map(row => row.map(value => this.escapeCsv(String(value))).join(',')).join('\n') + '\n';
+  }
+
+  private static escapeCsv(value: string): string {
+    return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  }
+
+  private static generateSarif(entries: ReportEntry[]): string {
+    const results = entries.flatMap(({ path, metrics, change }) =>
+      metrics.issues.map(issue => ({
+        ruleId: `verdant/${issue.code}`,
+        level: this.SARIF_LEVELS[issue.severity],
+        message: { text: issue.message },
+        // Lets code scanning tools hide results that were already accepted in the baseline
+        ...(change ? { baselineState: this.getBaselineState(issue, change) } : {}),
+        locations: [{
+          physicalLocation: {
+            artifactLocation: { uri: path, uriBaseId: '%SRCROOT%' },
+            region: issue.range ?? { startLine: 1 }
+          }
+        }]
+      }))
+    );
+
+    return JSON.stringify({
+      $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+      version: '2.1.0',
+      runs: [{
+        tool: {
+          driver: {
+            name: 'VerdantView',
+            informationUri: 'https://github.com/sitharaj88/VerdantView',
+            rules: this.getSarifCodes(entries).map(code => ({
+              id: `verdant/${code}`,
+              shortDescription: { text: this.SARIF_RULES[code] ?? `Issue contributed by another extension: ${code}` }
+            }))
+          }
+        },
+        results
+      }]
+    }, null, 2);
+  }
+
+  // Built-in rules first, then any codes contributed by rule providers
+  private static getSarifCodes(entries: ReportEntry[]): string[] {
+    const codes = new Set(Object.keys(this.SARIF_RULES));
+    entries.forEach(entry => entry.metrics.issues.forEach(issue => codes.add(issue.code)));
+    return Array.from(codes);
+  }
+
+  private static getBaselineState(issue: FileIssue, change: BaselineChange): string {
+    const previous = change.previous?.issues.find(candidate => candidate.code === issue.code);
+    if (!previous) {
+      return 'new';
+    }
+    return previous.message === issue.message ? 'unchanged' : 'updated';
+  }
+
+  private static generateHtml(entries: ReportEntry[]): string {
+    const totals = this.getTotals(entries);
+    const { total, generated, healthy, warning, critical } = totals;
+    const scored = total - generated;
+    const mostComplex = [...entries].sort((a, b) => b.metrics.complexity - a.metrics.complexity).slice(0, 10);
+    const maxComplexity = Math.max(1, ...mostComplex.map(entry => entry.metrics.complexity));
+    const healthColor = { healthy: '#4CAF50', warning: '#FF9800', critical: '#F44336' };
+
+    // Stacked bar of the health distribution
+    let offset = 0;
+    const distribution = (['healthy', 'warning', 'critical'] as const).map(health => {
+      const count = totals[health];
+      const width = scored > 0 ? count / scored * 100 : 0;
+      const bar = `<rect x="${offset}%" y="0" width="${width}%" height="24" fill="${healthColor[health]}"><title>${health}: ${count}</title></rect>`;
+      offset += width;
+      return bar;
+    }).join('');
+
+    const complexityBars = mostComplex.map((entry, index) => {
+      const width = entry.metrics.complexity / maxComplexity * 60;
+      return `<text x="0" y="${index * 22 + 15}" font-size="12" fill="currentColor">${this.escapeHtml(entry.path)}</text>` +
+        `<rect x="38%" y="${index * 22 + 3}" width="${width}%" height="16" fill="${healthColor[entry.metrics.health]}"/>` +
+        `<text x="${38 + width + 1}%" y="${index * 22 + 15}" font-size="12" fill="currentColor">${entry.metrics.complexity}</text>`;
+    }).join('');
+
+    const rows = [...entries]
+      .sort((a, b) => a.path.localeCompare(b.path))
+      .map(({ path, metrics }) => `
+            <tr>
+                <td>${this.escapeHtml(path)}</td>
+                <td><span class="badge" style="background:${healthColor[metrics.health]}">${metrics.health}</span></td>
+                <td>${metrics.score}</td>
+                <td>${metrics.lines.toLocaleString()}</td>
+                <td>${Math.round(metrics.size/1024)}KB</td>
+                <td>${metrics.complexity}</td>
+                <td>${this.escapeHtml(metrics.issues.map(issue => issue.message).join(', '))}</td>
+            </tr>`).join('');
+
+    const regressions = this.getRegressions(entries);
+    const regressionRows = regressions.map(entry => `
+            <tr>
+                <td>${this.escapeHtml(entry.path)}</td>
+                <td>${this.describeHealthChange(entry)}</td>
+                <td>${entry.metrics.complexity}</td>
+                <td>${HealthBaseline.formatDelta(entry.change!.complexityDelta)}</td>
+            </tr>`).join('');
+    const regressionSection = regressions.length === 0 ? '' : `
+    <h2>Regressions Since Baseline</h2>
+    <table>
+        <thead>
+            <tr><th>File</th><th>Health</th><th>Complexity</th><th>Change</th></tr>
+        </thead>
+        <tbody>${regressionRows}
+        </tbody>
+    </table>
+`;
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Verdant Garden Report</title>
+    <style>
+        body {
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+            margin: 0 auto;
+            padding: 20px;
+            max-width: 1100px;
+            color: #222;
+        }
+        .cards {
+            display: grid;
+            grid-template-columns: repeat(auto-fit, minmax(160px, 1fr));
+            gap: 16px;
+            margin-bottom: 24px;
+        }
+        .card {
+            border: 1px solid #ddd;
+            border-radius: 8px;
+            padding: 12px;
+        }
+        .card .value {
+            font-size: 26px;
+            font-weight: bold;
+        }
+        .card .label {
+            color: #666;
+        }
+        table {
+            width: 100%;
+            border-collapse: collapse;
+        }
+        th, td {
+            text-align: left;
+            padding: 6px 8px;
+            border-bottom: 1px solid #eee;
+        }
+        .badge {
+            color: white;
+            padding: 2px 8px;
+            border-radius: 10px;
+            font-size: 12px;
+        }
+    </style>
+</head>
+<body>
+    <h1>🌱 Verdant Garden Report</h1>
+    <p>Generated on: ${new Date().toLocaleString()}</p>
+
+    <div class="cards">
+        <div class="card"><div class="value">${total}</div><div class="label">Total Files</div></div>
+        <div class="card"><div class="value">${this.percentage(healthy, scored)}%</div><div class="label">Healthy</div></div>
+        <div class="card"><div class="value">${totals.averageScore.toFixed(1)}</div><div class="label">Average Score</div></div>
+        <div class="card"><div class="value">${warning}</div><div class="label">Warning</div></div>
+        <div class="card"><div class="value">${critical}</div><div class="label">Critical</div></div>
+        <div class="card"><div class="value">${totals.totalLines.toLocaleString()}</div><div class="label">Total Lines</div></div>
+        <div class="card"><div class="value">${totals.averageComplexity.toFixed(1)}</div><div class="label">Average Complexity</div></div>
+    </div>
+
+    <h2>Health Distribution</h2>
+    <svg width="100%" height="24">${distribution}</svg>
+
+    <h2>Most Complex Files</h2>
+    <svg width="100%" height="${mostComplex.length * 22 + 4}">${complexityBars}</svg>
+${regressionSection}
+    <h2>All Files</h2>
+    <table>
+        <thead>
+            <tr><th>File</th><th>Health</th><th>Score</th><th>Lines</th><th>Size</th><th>Complexity</th><th>Issues</th></tr>
+        </thead>
+        <tbody>${rows}
+        </tbody>
+    </table>
+</body>
+</html>`;
+  }
+
+  private static escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+}
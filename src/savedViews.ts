@@ -0,0 +1,37 @@
+import * as vscode from 'vscode';
+import { GardenFilter } from './gardenFilter';
+import { GroupBy } from './gardenProvider';
+
+export interface SavedView {
+  name: string;
+  filter: GardenFilter;
+  groupBy?: GroupBy;
+}
+
+/**
+ * Named filter and grouping combinations, kept in workspace state so each
+ * workspace has its own set.
+ */
+export class SavedViews {
+  private static readonly STATE_KEY = 'verdantView.savedViews';
+
+  constructor(private state: vscode.Memento) {}
+
+  // Sorted by name
+  getAll(): SavedView[] {
+    return [...this.state.get<SavedView[]>(SavedViews.STATE_KEY, [])].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  get(name: string): SavedView | undefined {
+    return this.getAll().find(view => view.name === name);
+  }
+
+  // Replaces any view with the same name
+  async save(view: SavedView): Promise<void> {
+    await this.state.update(SavedViews.STATE_KEY, [...this.getAll().filter(existing => existing.name !== view.name), view]);
+  }
+
+  async delete(name: string): Promise<void> {
+    await this.state.update(SavedViews.STATE_KEY, this.getAll().filter(view => view.name !== name));
+  }
+}
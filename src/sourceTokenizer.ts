@@ -0,0 +1,189 @@
+export interface Token {
+  text: string;
+  kind: 'word' | 'string' | 'symbol';
+  // 1-based line and 0-based column of the first character
+  line: number;
+  column: number;
+}
+
+export interface SourceSyntax {
+  lineComment?: string;
+  blockComment?: [string, string];
+  // Rust lets block comments nest
+  nestedComments?: boolean;
+  // Delimiters of strings that run to the same delimiter across lines, e.g. '"""' or '`'
+  multilineStrings?: string[];
+  // `'x'` is a character literal, so a `'` that does not start one (a Rust lifetime) is a plain symbol
+  charLiterals?: boolean;
+  // Rust's r"..." and r#"..."# strings
+  rawStrings?: boolean;
+  // C preprocessor lines are skipped
+  preprocessor?: boolean;
+  // A string on lines of its own is documentation, like Python docstrings
+  docstrings?: boolean;
+}
+
+export interface LineCounts {
+  // Lines with any code, including those that end in a comment
+  sloc: number;
+  commentLines: number;
+  blankLines: number;
+}
+
+/**
+ * Splits source code into words, string literals and operators, dropping whitespace and comments.
+ * Deliberately shallow: enough for the per-language analyzers to see keywords and brackets reliably.
+ */
+export class SourceTokenizer {
+  private static readonly OPERATORS = ['&&', '||', '=>', '->', '::', '==', '!=', '<=', '>='];
+  private static readonly WORD = /[\w$]+/y;
+  private static readonly CHAR_LITERAL = /'(?:[^'\\\n]|\\(?:u\{[0-9a-fA-F]+\}|u[0-9a-fA-F]{4}|x[0-9a-fA-F]{1,2}|[0-7]{1,3}|.))'/uy;
+  private static readonly RAW_STRING = /b?r(#*)"/y;
+
+  static tokenize(content: string, syntax: SourceSyntax): Token[] {
+    const tokens: Token[] = [];
+    let index = 0;
+    let line = 1;
+    let lineStart = 0;
+
+    // Moves to `end`, keeping track of the lines crossed on the way
+    const advance = (end: number): void => {
+      for (let i = index; i < end; i++) {
+        if (content[i] === '\n') {
+          line++;
+          lineStart = i + 1;
+        }
+      }
+      index = end;
+    };
+    const push = (end: number, kind: Token['kind']): void => {
+      tokens.push({ text: content.slice(index, end), kind, line, column: index - lineStart });
+      advance(end);
+    };
+
+    while (index < content.length) {
+      const char = content[index];
+
+      if (/\s/.test(char)) {
+        advance(index + 1);
+      } else if (syntax.preprocessor && char === '#' && content.slice(lineStart, index).trim() === '') {
+        advance(this.findLineEnd(content, index, true));
+      } else if (syntax.lineComment && content.startsWith(syntax.lineComment, index)) {
+        advance(this.findLineEnd(content, index, false));
+      } else if (syntax.blockComment && content.startsWith(syntax.blockComment[0], index)) {
+        advance(this.findCommentEnd(content, index, syntax.blockComment, syntax.nestedComments ?? false));
+      } else {
+        const delimiter = syntax.multilineStrings?.find(candidate => content.startsWith(candidate, index));
+        const rawString = syntax.rawStrings ? this.match(this.RAW_STRING, content, index) : undefined;
+
+        if (delimiter) {
+          const end = content.indexOf(delimiter, index + delimiter.length);
+          push(end < 0 ? content.length : end + delimiter.length, 'string');
+        } else if (rawString) {
+          const closing = '"' + rawString[1];
+          const end = content.indexOf(closing, index + rawString[0].length);
+          push(end < 0 ? content.length : end + closing.length, 'string');
+        } else if (char === '\'' && syntax.charLiterals) {
+          const literal = this.match(this.CHAR_LITERAL, content, index);
+          push(index + (literal ? literal[0].length : 1), literal ? 'string' : 'symbol');
+        } else if (char === '"' || char === '\'') {
+          push(this.findQuoteEnd(content, index), 'string');
+        } else {
+          const word = this.match(this.WORD, content, index);
+          if (word) {
+            push(index + word[0].length, 'word');
+          } else {
+            const operator = this.OPERATORS.find(candidate => content.startsWith(candidate, index));
+            push(index + (operator?.length ?? 1), 'symbol');
+          }
+        }
+      }
+    }
+
+    return tokens;
+  }
+
+  // Without a syntax every non-blank line counts as code
+  static countLines(content: string, syntax: SourceSyntax | undefined): LineCounts {
+    const codeLines = new Set<number>();
+    if (syntax) {
+      // Preprocessor directives are code for line counting
+      const tokens = this.tokenize(content, { ...syntax, preprocessor: false });
+      tokens.forEach((token, index) => {
+        const previous = tokens[index - 1];
+        const next = tokens[index + 1];
+        if (syntax.docstrings && token.kind === 'string' &&
+            (!previous || this.getEndLine(previous) < token.line) && (!next || next.line > this.getEndLine(token))) {
+          return;
+        }
+        for (let line = token.line; line <= this.getEndLine(token); line++) {
+          codeLines.add(line);
+        }
+      });
+    }
+
+    const counts: LineCounts = { sloc: 0, commentLines: 0, blankLines: 0 };
+    content.split('\n').forEach((text, index) => {
+      const blank = text.trim() === '';
+      if (syntax ? codeLines.has(index + 1) : !blank) {
+        counts.sloc++;
+      } else if (blank) {
+        counts.blankLines++;
+      } else {
+        counts.commentLines++;
+      }
+    });
+    return counts;
+  }
+
+  // Lines a token spans beyond its first, for multi-line strings
+  static getEndLine(token: Token): number {
+    return token.line + token.text.split('\n').length - 1;
+  }
+
+  private static match(pattern: RegExp, content: string, index: number): RegExpExecArray | null {
+    pattern.lastIndex = index;
+    return pattern.exec(content);
+  }
+
+  private static findLineEnd(content: string, index: number, continuations: boolean): number {
+    let end = content.indexOf('\n', index);
+    // Preprocessor directives continue onto the next line after a trailing backslash
+    while (continuations && end > 0 && content[end - 1 - (content[end - 1] === '\r' ? 1 : 0)] === '\\') {
+      end = content.indexOf('\n', end + 1);
+    }
+    return end < 0 ? content.length : end;
+  }
+
+  private static findCommentEnd(content: string, index: number, [open, close]: [string, string], nested: boolean): number {
+    let depth = 0;
+    for (let i = index; i < content.length; i++) {
+      if (content.startsWith(open, i) && (nested || depth === 0)) {
+        depth++;
+        i += open.length - 1;
+      } else if (content.startsWith(close, i)) {
+        depth--;
+        i += close.length - 1;
+        if (depth === 0) {
+          return i + 1;
+        }
+      }
+    }
+    return content.length;
+  }
+
+  // Unterminated strings stop at the end of their line so one stray quote cannot swallow the file
+  private static findQuoteEnd(content: string, index: number): number {
+    const quote = content[index];
+    for (let i = index + 1; i < content.length; i++) {
+      if (content[i] === '\\') {
+        i++;
+      } else if (content[i] === quote) {
+        return i + 1;
+      } else if (content[i] === '\n') {
+        return i;
+      }
+    }
+    return content.length;
+  }
+}
@@ -0,0 +1,34 @@
+import * as assert from 'assert';
+import { evaluateGates } from '../cliConfig';
+import { FileMetrics } from '../fileAnalyzer';
+import { HealthBaseline } from '../healthBaseline';
+import { createTestMetrics } from './testMetrics';
+
+function entry(path: string, health: FileMetrics['health']) {
+	return { path, metrics: { ...createTestMetrics(path), health } };
+}
+
+suite('CliConfig Test Suite', () => {
+	const entries = [entry('a.ts', 'healthy'), entry('b.ts', 'healthy'), entry('c.ts', 'warning'), entry('d.ts', 'critical')];
+
+	test('Checks the healthy percentage and critical count', () => {
+		const results = evaluateGates(entries, { minHealth: 50, maxCritical: 0 });
+
+		assert.deepStrictEqual(results.map(result => result.passed), [true, false]);
+		assert.strictEqual(results[0].detail, '50% healthy');
+
+		const lockfile = entry('yarn.lock', 'healthy');
+		const withGenerated = [...entries, { ...lockfile, metrics: { ...lockfile.metrics, kind: 'generated' as const } }];
+		assert.strictEqual(evaluateGates(withGenerated, { minHealth: 50 })[0].detail, '50% healthy');
+	});
+
+	test('Only fails on files that became critical since the baseline', () => {
+		const baseline = HealthBaseline.parse(JSON.stringify({ files: [{ path: 'd.ts', health: 'critical' }] }));
+		assert.ok(evaluateGates(entries, { noNewCritical: true }, baseline)[0].passed);
+
+		const worse = [...entries, entry('e.ts', 'critical')];
+		const [result] = evaluateGates(worse, { noNewCritical: true }, baseline);
+		assert.strictEqual(result.passed, false);
+		assert.strictEqual(result.detail, '1 new: e.ts');
+	});
+});
@@ -0,0 +1,70 @@
+import * as assert from 'assert';
+import { ComplexityAnalyzer } from '../complexityAnalyzer';
+
+suite('ComplexityAnalyzer Test Suite', () => {
+	test('Ignores keywords in strings and comments', () => {
+		const source = [
+			'// if this else that, for while switch',
+			'const text = "if (a && b) { return c ? d : e; }";',
+			'function plain() { return text; }'
+		].join('\n');
+
+		const report = ComplexityAnalyzer.analyze(source, '.ts');
+		assert.strictEqual(report.max, 1);
+		assert.deepStrictEqual(report.functions.map(f => f.name), ['plain']);
+	});
+
+	test('Counts decision points per function', () => {
+		const source = [
+			'class Gate {',
+			'  check(a: number, b?: number) {',
+			'    if (a > 0 && b) { return 1; }',
+			'    for (const x of [a]) { try { x.toFixed(); } catch { return 2; } }',
+			'    switch (a) { case 1: return 3; case 2: return 4; default: return b ?? 5; }',
+			'  }',
+			'}',
+			'const pick = (a: boolean) => a ? 1 : 2;'
+		].join('\n');
+
+		const report = ComplexityAnalyzer.analyze(source, '.ts');
+		assert.deepStrictEqual(report.functions, [
+			{ name: 'Gate.check', startLine: 2, endLine: 6, length: 5, nestingDepth: 2, complexity: 8 },
+			{ name: 'pick', startLine: 8, endLine: 8, length: 1, nestingDepth: 0, complexity: 2 }
+		]);
+		assert.strictEqual(report.max, 8);
+		assert.strictEqual(report.sum, 10);
+	});
+
+	test('Keeps nested functions separate from their parent', () => {
+		const source = [
+			'function outer(items) {',
+			'  return items.filter(function (item) { return item.ok || item.forced; });',
+			'}'
+		].join('\n');
+
+		const report = ComplexityAnalyzer.analyze(source, '.js');
+		assert.deepStrictEqual(report.functions.map(f => [f.name, f.complexity]), [
+			['outer', 1],
+			['(anonymous)', 2]
+		]);
+	});
+
+	test('Treats else-if chains as a single nesting level', () => {
+		const source = [
+			'function grade(score) {',
+			'  if (score > 90) {',
+			'    return "A";',
+			'  } else if (score > 80) {',
+			'    return "B";',
+			'  } else if (score > 70) {',
+			'    while (score--) { if (score % 2) { break; } }',
+			'  }',
+			'  return "C";',
+			'}'
+		].join('\n');
+
+		const [grade] = ComplexityAnalyzer.analyze(source, '.js').functions;
+		assert.strictEqual(grade.nestingDepth, 3);
+		assert.strictEqual(grade.complexity, 6);
+	});
+});
@@ -0,0 +1,62 @@
+import * as assert from 'assert';
+import { DependencyGraph } from '../dependencyGraph';
+
+suite('DependencyGraph Test Suite', () => {
+	test('Resolves relative script imports and ignores packages, comments and strings', () => {
+		const graph = new DependencyGraph();
+		graph.setFile('src/app.ts', [
+			'import * as fs from \'fs\';',
+			'import { helper } from \'./util/helper\';',
+			'export * from \'./types.js\';',
+			'// import \'./ignored\';',
+			'const text = "require(\'./ignored\')";',
+			'const lazy = () => import(\'./util\');'
+		].join('\n'), 'typescript');
+		graph.setFile('src/util/helper.ts', 'export const helper = require(\'../types\');', 'typescript');
+		graph.setFile('src/util/index.js', 'module.exports = {};', 'javascript');
+		graph.setFile('src/types.ts', 'export type Id = string;', 'typescript');
+		graph.setFile('src/ignored.ts', '', 'typescript');
+
+		const dependencies = graph.analyze();
+		assert.deepStrictEqual(dependencies.get('src/app.ts'), {
+			imports: ['src/types.ts', 'src/util/helper.ts', 'src/util/index.js'],
+			importedBy: []
+		});
+		assert.deepStrictEqual(dependencies.get('src/types.ts')?.importedBy, ['src/app.ts', 'src/util/helper.ts']);
+		assert.deepStrictEqual(dependencies.get('src/ignored.ts')?.importedBy, []);
+	});
+
+	test('Resolves Python imports and reports the shortest cycle through each file', () => {
+		const graph = new DependencyGraph();
+		graph.setFile('pkg/__init__.py', '', 'python');
+		graph.setFile('pkg/a.py', 'import os\nfrom . import b\nfrom pkg.models import (\n    User,\n)', 'python');
+		graph.setFile('pkg/b.py', 'from .c import run', 'python');
+		graph.setFile('pkg/c.py', 'import pkg.a as a', 'python');
+		graph.setFile('pkg/models.py', '', 'python');
+
+		const dependencies = graph.analyze(file => file.toUpperCase());
+		assert.deepStrictEqual(dependencies.get('pkg/a.py')?.imports, ['pkg/__init__.py', 'pkg/b.py', 'pkg/models.py']);
+		assert.deepStrictEqual(dependencies.get('pkg/b.py')?.cycle, ['PKG/B.PY', 'PKG/C.PY', 'PKG/A.PY', 'PKG/B.PY']);
+		assert.strictEqual(dependencies.get('pkg/models.py')?.cycle, undefined);
+	});
+
+	test('Resolves tsconfig path aliases and marks files no entry point reaches as unused', () => {
+		const graph = new DependencyGraph();
+		graph.setFile('tsconfig.json', '{\n\t// Comments are allowed\n\t"compilerOptions": { "baseUrl": ".", "paths": { "@lib/*": ["src/lib/*"] } }\n}', 'json');
+		graph.setFile('package.json', JSON.stringify({ main: './dist/main.js', scripts: { build: 'node scripts/build.mjs --watch' } }), 'json');
+		graph.setFile('src/main.ts', 'import { format } from \'@lib/format\';', 'typescript');
+		graph.setFile('src/lib/format.ts', 'import { pad } from \'src/lib/pad\';', 'typescript');
+		graph.setFile('src/lib/pad.ts', 'export const pad = 1;', 'typescript');
+		graph.setFile('src/legacy.ts', 'import { pad } from \'./lib/pad\';', 'typescript');
+		graph.setFile('src/legacy.test.ts', 'import \'./legacy\';', 'typescript');
+		graph.setFile('src/old.ts', '', 'typescript');
+		graph.setFile('scripts/build.mjs', '', 'javascript');
+
+		const dependencies = graph.analyze(undefined, file => file.endsWith('.test.ts'));
+		assert.deepStrictEqual(dependencies.get('src/main.ts')?.imports, ['src/lib/format.ts']);
+		assert.deepStrictEqual(dependencies.get('src/lib/format.ts')?.imports, ['src/lib/pad.ts']);
+		const unused = Array.from(dependencies).filter(([, entry]) => entry.unused).map(([file]) => file);
+		assert.deepStrictEqual(unused, ['src/old.ts']);
+		assert.strictEqual(graph.analyze().get('src/old.ts')?.unused, undefined);
+	});
+});
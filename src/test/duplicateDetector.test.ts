@@ -0,0 +1,90 @@
+import * as assert from 'assert';
+import { DuplicateDetector } from '../duplicateDetector';
+
+suite('DuplicateDetector Test Suite', () => {
+	const block = (name: string) => [
+		`function ${name}(items: number[], limit: number): number[] {`,
+		'	const result: number[] = [];',
+		'	for (const item of items) {',
+		'		if (item > limit && item % 2 === 0) {',
+		'			result.push(item * 2);',
+		'		}',
+		'	}',
+		'	return result;',
+		'}'
+	].join('\n');
+
+	test('Finds renamed copies across files with their line ranges', () => {
+		const detector = new DuplicateDetector(20);
+		detector.setFile('src/a.ts', block('evens'), 'typescript');
+		detector.setFile('src/b.ts', ['// Copied', '', block('doubled').replace(/item/g, 'value')].join('\n'), 'typescript');
+		detector.setFile('src/c.ts', 'export const answer = 42;', 'typescript');
+
+		const clones = detector.findClones();
+		assert.strictEqual(clones.length, 1);
+		assert.deepStrictEqual(clones[0].a, { file: 'src/a.ts', startLine: 1, endLine: 9 });
+		assert.deepStrictEqual(clones[0].b, { file: 'src/b.ts', startLine: 3, endLine: 11 });
+
+		const summary = DuplicateDetector.summarize(clones, file => file.toUpperCase());
+		assert.strictEqual(summary.get('src/b.ts')?.duplicatedLines, 9);
+		assert.deepStrictEqual(summary.get('src/b.ts')?.clones[0].other, { file: 'SRC/A.TS', startLine: 1, endLine: 9 });
+		assert.ok(!summary.has('src/c.ts'));
+	});
+
+	test('Finds copies within one file and forgets deleted files', () => {
+		const detector = new DuplicateDetector(20);
+		const first = [
+			'def first(items):',
+			'    total = 0',
+			'    for item in items:',
+			'        if item > 10 and item < 100:',
+			'            total += item * 2',
+			'    return total'
+		].join('\n');
+		const other = ['def other(value):', '    return {"name": str(value), "size": len(str(value)), "half": value / 2}'].join('\n');
+		detector.setFile('a.py', [first, other, first].join('\n'), 'python');
+		detector.setFile('notes.md', block('evens') + '\n' + block('evens'), 'markdown');
+
+		const clones = detector.findClones();
+		assert.strictEqual(clones.length, 1);
+		assert.deepStrictEqual([clones[0].a.startLine, clones[0].b.startLine], [1, 9]);
+
+		detector.deleteFile('a.py');
+		assert.deepStrictEqual(detector.findClones(), []);
+	});
+
+	test('Ignores import headers of the same shape', () => {
+		const detector = new DuplicateDetector(20);
+		const header = (modules: string[]) => modules.map((module, i) => `import { name${i}, other${i} } from './${module}';`).join('\n');
+		const requires = (modules: string[]) => modules.map((module, i) => `const name${i} = require('${module}');`).join('\n');
+		detector.setFile('a.ts', [header(['fs', 'path', 'os', 'util', 'url']), requires(['a', 'b', 'c', 'd']), 'run();'].join('\n'), 'typescript');
+		detector.setFile('b.ts', [header(['http', 'net', 'tls', 'dns', 'zlib']), requires(['e', 'f', 'g', 'h']), 'run();'].join('\n'), 'typescript');
+		detector.setFile('c.py', ['from os import path, sep', 'import json', 'from . import models', 'import re', ''].join('\n').repeat(3), 'python');
+
+		assert.deepStrictEqual(detector.findClones(), []);
+	});
+
+	test('Does not report repetitive lookup tables as copies of themselves', () => {
+		const detector = new DuplicateDetector(50);
+		const rows = Array.from({ length: 69 }, (_, i) => `	['.ext${i}', 'icon${i}'],`);
+		const table = ['const ICONS = new Map([', ...rows, ']);'];
+		detector.setFile('icons.ts', table.join('\n'), 'typescript');
+
+		assert.deepStrictEqual(detector.findClones(), []);
+
+		// Neither do functions or declarations of the same shape that follow each other
+		detector.setFile('icons.ts', [block('first'), block('second')].join('\n'), 'typescript');
+		assert.deepStrictEqual(detector.findClones(), []);
+
+		const language = (name: string, keywords: string[]) => [
+			`static readonly ${name} = new Analyzer({`,
+			`	syntax: { lineComment: '//', blockComment: ['/*', '*/'], charLiterals: true },`,
+			`	decisionKeywords: [${keywords.map(keyword => `'${keyword}'`).join(', ')}],`,
+			'	findFunction: header => Analyzer.findCallable(header),',
+			'	ternary: true',
+			'});'
+		].join('\n');
+		detector.setFile('icons.ts', [language('C', ['if', 'for']), language('JAVA', ['if', 'for', 'catch']), language('GO', ['if'])].join('\n'), 'typescript');
+		assert.deepStrictEqual(detector.findClones(), []);
+	});
+});
@@ -0,0 +1,43 @@
+import * as assert from 'assert';
+import { FileAnalyzer } from '../fileAnalyzer';
+import { createTestMetrics } from './testMetrics';
+
+suite('FileAnalyzer Test Suite', () => {
+	const text = (value: string) => new TextEncoder().encode(value);
+
+	test('Tells binary, generated and source files apart', () => {
+		assert.strictEqual(FileAnalyzer.getFileKind(text('not really a png'), 'images/banner.png'), 'binary');
+		assert.strictEqual(FileAnalyzer.getFileKind(Uint8Array.from([0x7f, 0x45, 0x4c, 0x46, 0, 1]), 'bin/tool'), 'binary');
+		assert.strictEqual(FileAnalyzer.getFileKind(text('# yarn lockfile v1'), 'yarn.lock'), 'generated');
+		assert.strictEqual(FileAnalyzer.getFileKind(text('// Code generated by protoc-gen-go. DO NOT EDIT.\npackage pb'), 'api.pb.go'), 'generated');
+		assert.strictEqual(FileAnalyzer.getFileKind(text(`var a=1;${'if(a){a++}'.repeat(400)}`), 'dist/bundle.js'), 'generated');
+		assert.strictEqual(FileAnalyzer.getFileKind(text('const a = 1;\n'.repeat(400)), 'src/a.ts'), 'source');
+	});
+
+	test('Scores binary assets by size alone and leaves generated files unscored', () => {
+		const binary = FileAnalyzer.analyzeContent(Uint8Array.from([0x89, 0x50, 0x4e, 0x47, 0, 0]), 'logo.png');
+		assert.deepStrictEqual([binary.lines, binary.complexity], [0, 0]);
+
+		const old = { mtime: 0, size: 5 * 1024 * 1024 };
+		const asset = FileAnalyzer.createMetrics('logo.png', old, binary, undefined, FileAnalyzer.DEFAULT_THRESHOLDS);
+		assert.deepStrictEqual([asset.score, asset.health], [40, 'critical']);
+		assert.deepStrictEqual(asset.issues.map(issue => issue.message), ['Large binary asset (5120KB)']);
+
+		const generated = FileAnalyzer.analyzeContent(text('/* @generated */\nif (a) { b(); }'), 'schema.ts');
+		const metrics = FileAnalyzer.createMetrics('schema.ts', old, generated, undefined, FileAnalyzer.DEFAULT_THRESHOLDS);
+		assert.deepStrictEqual([metrics.kind, metrics.health, metrics.issues, metrics.lines], ['generated', 'healthy', [], 2]);
+	});
+
+	test('Scores files continuously and bands the score', () => {
+		const score = (complexity: number, thresholds = FileAnalyzer.DEFAULT_THRESHOLDS) =>
+			createTestMetrics('a.ts', { complexity, thresholds });
+
+		assert.deepStrictEqual([score(9).score, score(9).health], [100, 'healthy']);
+		assert.deepStrictEqual([score(10).score, score(10).health], [80, 'warning']);
+		assert.deepStrictEqual([score(15).score, score(15).health], [70, 'warning']);
+		assert.deepStrictEqual([score(30).score, score(30).health], [40, 'critical']);
+
+		const stepped = { ...FileAnalyzer.DEFAULT_THRESHOLDS, scoring: { curves: { complexity: 'step' as const }, bands: { warning: 70 } } };
+		assert.deepStrictEqual([score(15, stepped).score, score(15, stepped).health], [80, 'healthy']);
+	});
+});
@@ -0,0 +1,63 @@
+import * as assert from 'assert';
+import { FileAnalyzer } from '../fileAnalyzer';
+import { FolderConfigs } from '../folderConfig';
+
+suite('FolderConfigs Test Suite', () => {
+	const thresholds = FileAnalyzer.DEFAULT_THRESHOLDS;
+
+	test('Merges configs from the outermost folder inwards, with overrides per glob', () => {
+		const configs = new FolderConfigs();
+		configs.set('.verdantrc.json', '{ "healthThresholds": { "complexity": { "warning": 8 } }, "exclude": ["vendor/**"] }');
+		configs.set('src/.verdantrc.json', [
+			'{',
+			'	// Domain code is held to a higher bar',
+			'	"healthThresholds": { "complexity": { "critical": 12 } },',
+			'	"overrides": [{ "files": "*.test.ts", "healthThresholds": { "size": { "warning": 2000 } }, "rules": { "duplication": false } }]',
+			'}'
+		].join('\n'));
+
+		const domain = configs.resolve('src/core/order.ts', thresholds);
+		assert.deepStrictEqual(domain.thresholds.complexity, { warning: 8, critical: 12 });
+		assert.deepStrictEqual(domain.sources, ['src/.verdantrc.json', '.verdantrc.json']);
+		assert.deepStrictEqual(domain.rules, {});
+
+		const test = configs.resolve('src/core/order.test.ts', thresholds);
+		assert.deepStrictEqual(test.thresholds.size, { warning: 2000, critical: 1000 });
+		assert.deepStrictEqual(test.rules, { duplication: false });
+
+		assert.deepStrictEqual(configs.resolve('docs/a.md', thresholds).sources, ['.verdantrc.json']);
+		assert.ok(configs.isExcluded('vendor/lib.js'));
+		assert.ok(!configs.isExcluded('src/vendor/lib.js'));
+		assert.strictEqual(thresholds.complexity.warning, 10);
+	});
+
+	test('Stops at root configs and rejects invalid JSON', () => {
+		const configs = new FolderConfigs();
+		configs.set('/repo/.verdantrc.json', '{ "rules": { "age": false } }');
+		configs.set('/repo/clients/.verdantrc.json', '{ "root": true, "rules": { "complexity": false } }');
+
+		const settings = configs.resolve('/repo/clients/api.ts', thresholds);
+		assert.deepStrictEqual(settings.rules, { complexity: false });
+		assert.deepStrictEqual(settings.sources, ['/repo/clients/.verdantrc.json']);
+		assert.deepStrictEqual(configs.resolve('/repo/src/a.ts', thresholds).rules, { age: false });
+
+		assert.throws(() => configs.set('/repo/clients/.verdantrc.json', '{ "rules": '), /Invalid JSON/);
+		assert.deepStrictEqual(configs.resolve('/repo/clients/api.ts', thresholds).rules, { age: false });
+	});
+
+	test('Merges nested scoring overrides part by part', () => {
+		const configs = new FolderConfigs();
+		configs.set('.verdantrc.json', '{ "healthThresholds": { "scoring": { "weights": { "complexity": 80 } } } }');
+		configs.set('src/.verdantrc.json', '{ "healthThresholds": { "scoring": { "weights": { "age": 5 }, "bands": { "warning": 80 } } } }');
+
+		const workspace = { ...thresholds, scoring: { weights: { penalty: 20 }, curves: { size: 'step' as const } } };
+		const settings = configs.resolve('src/a.ts', workspace);
+		assert.deepStrictEqual(settings.thresholds.scoring, {
+			weights: { penalty: 20, complexity: 80, age: 5 },
+			curves: { size: 'step' },
+			bands: { warning: 80 }
+		});
+		assert.deepStrictEqual(settings.sources, ['src/.verdantrc.json', '.verdantrc.json']);
+		assert.strictEqual(FileAnalyzer.getScoring(settings.thresholds).weights.complexity, 80);
+	});
+});
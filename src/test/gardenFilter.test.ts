@@ -0,0 +1,36 @@
+import * as assert from 'assert';
+import { FileAnalyzer } from '../fileAnalyzer';
+import { GardenFilters } from '../gardenFilter';
+import { sourceContent } from './testMetrics';
+
+suite('GardenFilters Test Suite', () => {
+	test('Parses queries and formats them back', () => {
+		const query = 'path:src/** type:TypeScript,python health:warning,critical complexity>=15 lines>400 order client';
+		const filter = GardenFilters.parse(query);
+		assert.deepStrictEqual(filter, {
+			path: 'src/**',
+			types: ['typescript', 'python'],
+			health: ['warning', 'critical'],
+			ranges: [{ metric: 'complexity', operator: '>=', value: 15 }, { metric: 'lines', operator: '>', value: 400 }],
+			text: 'order client'
+		});
+		assert.deepStrictEqual(GardenFilters.parse(GardenFilters.format(filter)), filter);
+		assert.ok(GardenFilters.isEmpty(GardenFilters.parse('  ')));
+		assert.throws(() => GardenFilters.parse('health:wilted'), /Unknown health state 'wilted'/);
+	});
+
+	test('Matches files on every part of the filter', () => {
+		const content = { ...sourceContent(18), lines: 500, sloc: 450, commentLines: 20, blankLines: 30, totalComplexity: 40 };
+		const metrics = FileAnalyzer.createMetrics('src/orders/orderClient.ts', { mtime: Date.now(), size: 20 * 1024 }, content, undefined, FileAnalyzer.DEFAULT_THRESHOLDS);
+		const matches = (query: string) => GardenFilters.matches(GardenFilters.parse(query), 'src/orders/orderClient.ts', metrics);
+
+		assert.ok(matches(''));
+		assert.ok(matches('path:src/** type:typescript complexity>=15 lines>400 size=20 age<1 client'));
+		assert.ok(matches(`path:*.ts health:${metrics.health},withered`));
+		assert.ok(!matches('path:test/**'));
+		assert.ok(!matches('complexity<15'));
+		assert.ok(!matches('health:withered'));
+		assert.ok(!matches('churn>0'));
+		assert.ok(!matches('server'));
+	});
+});
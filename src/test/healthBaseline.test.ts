@@ -0,0 +1,35 @@
+import * as assert from 'assert';
+import { FileMetrics } from '../fileAnalyzer';
+import { HealthBaseline } from '../healthBaseline';
+import { createTestMetrics } from './testMetrics';
+
+function metrics(complexity: number, health: FileMetrics['health']): FileMetrics {
+	return { ...createTestMetrics('a.ts', { complexity }), health };
+}
+
+suite('HealthBaseline Test Suite', () => {
+	test('Round-trips the health of every file', () => {
+		const baseline = HealthBaseline.parse(HealthBaseline.create([{ path: 'src/a.ts', metrics: metrics(11, 'warning') }]));
+
+		assert.deepStrictEqual(baseline.get('src/a.ts'), {
+			health: 'warning', complexity: 11, lines: 10, issues: [{ code: 'complexity', severity: 'warning', message: 'Moderate complexity (11)' }]
+		});
+	});
+
+	test('Flags new files and files that got worse', () => {
+		const previous = { health: 'warning' as const, complexity: 11, lines: 10, issues: [] };
+
+		assert.deepStrictEqual(HealthBaseline.compare(metrics(14, 'warning'), previous), {
+			isNew: false, regressed: true, previous, complexityDelta: 3, linesDelta: 0
+		});
+		assert.strictEqual(HealthBaseline.compare(metrics(9, 'warning'), previous).regressed, false);
+		assert.strictEqual(HealthBaseline.compare(metrics(9, 'critical'), previous).regressed, true);
+		assert.strictEqual(HealthBaseline.compare(metrics(1, 'healthy'), undefined).isNew, true);
+	});
+
+	test('Formats complexity deltas with arrows', () => {
+		assert.strictEqual(HealthBaseline.formatDelta(3), '▲3');
+		assert.strictEqual(HealthBaseline.formatDelta(-2), '▼2');
+		assert.strictEqual(HealthBaseline.formatDelta(0), '');
+	});
+});
@@ -0,0 +1,126 @@
+import * as assert from 'assert';
+import { LanguageAnalyzers } from '../languageAnalyzers';
+
+suite('LanguageAnalyzers Test Suite', () => {
+	const summarize = (type: string, source: string) => LanguageAnalyzers.get(type).analyze(source, '')
+		.functions.map(f => [f.name, f.complexity, f.nestingDepth]);
+
+	test('Python blocks follow indentation and ignore keywords in strings', () => {
+		const source = [
+			'class Greeter:',
+			'    """if and or while"""',
+			'    def greet(self, name):',
+			'        if name and name.strip():  # for while',
+			'            for ch in name:',
+			'                print(ch)',
+			'        elif name is None:',
+			'            return [x for x in "if" if x]',
+			'        return "else if"',
+			'',
+			'def pick(value):',
+			'    match value:',
+			'        case 1:',
+			'            return "one"',
+			'        case _:',
+			'            return "other"'
+		].join('\n');
+
+		assert.deepStrictEqual(summarize('python', source), [
+			['Greeter.greet', 7, 2],
+			['pick', 2, 1]
+		]);
+	});
+
+	test('Go counts select cases and names methods by receiver', () => {
+		const source = [
+			'func (s *Server) Serve(req string) {',
+			'	msg := `if for`',
+			'	select {',
+			'	case <-s.done:',
+			'	case v := <-s.ch:',
+			'		go func() {',
+			'			if v != "" && req != "" {',
+			'			}',
+			'		}()',
+			'	}',
+			'}'
+		].join('\n');
+
+		assert.deepStrictEqual(summarize('go', source), [
+			['Server.Serve', 3, 1],
+			['(anonymous)', 3, 1]
+		]);
+	});
+
+	test('Rust counts match arms and guards but not closures or lifetimes', () => {
+		const source = [
+			'impl<T> fmt::Display for Wrapper<T> {',
+			'    fn fmt<\'a>(&\'a self, f: &mut Formatter) -> Result {',
+			'        let always = move || true;',
+			'        match self.0 {',
+			'            Some(x) if x > 0 && always() => write!(f, "{}", \'{\'),',
+			'            None => Ok(()),',
+			'            _ => Ok(()),',
+			'        }',
+			'    }',
+			'}'
+		].join('\n');
+
+		assert.deepStrictEqual(summarize('rust', source), [['Wrapper.fmt', 5, 1]]);
+	});
+
+	test('Java and C skip braceless bodies, char literals and preprocessor lines', () => {
+		const java = [
+			'public class Repo {',
+			'    @Override',
+			'    public List<? extends Item> find(int id) throws IOException {',
+			'        if (id > 0) for (int i = 0; i < id; i++) load(i);',
+			'        try { return id > 5 ? all() : none(); } catch (IOException e) { return null; }',
+			'    }',
+			'}'
+		].join('\n');
+		const c = [
+			'#if defined(DEBUG) && VERBOSE',
+			'#endif',
+			'int clamp(int x) {',
+			'    char open = \'{\';',
+			'    do { x--; } while (x > 10 || x < -10);',
+			'    return x;',
+			'}'
+		].join('\n');
+
+		assert.deepStrictEqual(summarize('java', java), [['Repo.find', 5, 1]]);
+		assert.deepStrictEqual(summarize('c', c), [['clamp', 3, 1]]);
+	});
+
+	test('Splits lines into code, comment and blank lines per language', () => {
+		const typescript = [
+			'/**',
+			' * Licensed under MIT',
+			' */',
+			'',
+			'const url = "http://example.com"; // trailing comment',
+			'const text = `',
+			'// not a comment',
+			'`;'
+		].join('\n');
+		const python = [
+			'def greet():',
+			'    """',
+			'    Docstring',
+			'    """',
+			'    # comment',
+			'    return "#"'
+		].join('\n');
+
+		assert.deepStrictEqual(LanguageAnalyzers.countLines('typescript', typescript), { sloc: 4, commentLines: 3, blankLines: 1 });
+		assert.deepStrictEqual(LanguageAnalyzers.countLines('python', python), { sloc: 2, commentLines: 4, blankLines: 0 });
+		assert.deepStrictEqual(LanguageAnalyzers.countLines('text', '# Title\n\nBody'), { sloc: 2, commentLines: 0, blankLines: 1 });
+	});
+
+	test('Falls back to the generic analyzer for other file types', () => {
+		assert.ok(!LanguageAnalyzers.supports('markdown'));
+		const report = LanguageAnalyzers.get('markdown').analyze('# If you want', '.md');
+		assert.deepStrictEqual(report, { functions: [], max: 1, sum: 1 });
+	});
+});
@@ -0,0 +1,42 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { ProviderRegistry } from '../providerRegistry';
+import { createTestMetrics } from './testMetrics';
+
+suite('ProviderRegistry Test Suite', () => {
+	const uri = vscode.Uri.file('/workspace/a.ts');
+	const metrics = createTestMetrics(uri.fsPath);
+
+	test('Rule providers see contributed metrics and add penalties', async () => {
+		const registry = new ProviderRegistry();
+		registry.registerMetricProvider({ id: 'coverage', provideMetrics: () => ({ coverage: 40 }) });
+		registry.registerMetricProvider({ id: 'broken', provideMetrics: () => { throw new Error('boom'); } });
+		registry.registerRuleProvider({
+			id: 'coverage-rule',
+			evaluate: (_uri, fileMetrics) => {
+				const coverage = fileMetrics.customMetrics?.coverage;
+				return coverage !== undefined && coverage < 50
+					? { issues: [{ code: 'coverage/low', severity: 'warning', message: 'Low coverage' }], penalty: 3 }
+					: undefined;
+			}
+		});
+
+		const contribution = await registry.collect(uri, metrics);
+		const result = createTestMetrics(uri.fsPath, { contribution });
+
+		assert.deepStrictEqual(result.customMetrics, { coverage: 40 });
+		assert.strictEqual(result.health, 'critical');
+		assert.deepStrictEqual(result.issues.map(issue => issue.code), ['coverage/low']);
+		registry.dispose();
+	});
+
+	test('Disposing a registration removes the provider', () => {
+		const registry = new ProviderRegistry();
+		const registration = registry.registerRuleProvider({ id: 'rule', evaluate: () => undefined });
+		assert.ok(registry.hasProviders());
+
+		registration.dispose();
+		assert.ok(!registry.hasProviders());
+		registry.dispose();
+	});
+});
@@ -0,0 +1,15 @@
+import { ContentMetrics, FileAnalyzer, FileMetrics, HealthThresholds, MetricContribution } from '../fileAnalyzer';
+
+// A small source file; tests override only the fields they care about
+export function sourceContent(complexity = 1): ContentMetrics {
+	return { kind: 'source', lines: 10, sloc: 8, commentLines: 1, blankLines: 1, complexity, totalComplexity: complexity, functions: [] };
+}
+
+// Metrics of a recently modified source file
+export function createTestMetrics(
+	filePath = 'a.ts',
+	{ complexity = 1, thresholds = FileAnalyzer.DEFAULT_THRESHOLDS, contribution }:
+		{ complexity?: number; thresholds?: HealthThresholds; contribution?: MetricContribution } = {}
+): FileMetrics {
+	return FileAnalyzer.createMetrics(filePath, { mtime: Date.now(), size: 100 }, sourceContent(complexity), undefined, thresholds, contribution);
+}
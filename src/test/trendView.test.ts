@@ -0,0 +1,31 @@
+import * as assert from 'assert';
+import { createSparkline, scalePoints } from '../trendView';
+
+suite('TrendView Test Suite', () => {
+	test('Scales points across the padded chart area', () => {
+		const points = [
+			{ timestamp: 1000, value: 10 },
+			{ timestamp: 2000, value: 30 },
+			{ timestamp: 3000, value: 20 }
+		];
+
+		assert.deepStrictEqual(scalePoints(points, 120, 40, 10), [
+			[10, 30],
+			[60, 10],
+			[110, 20]
+		]);
+	});
+
+	test('Handles flat series without dividing by zero', () => {
+		const points = [
+			{ timestamp: 1000, value: 5 },
+			{ timestamp: 1000, value: 5 }
+		];
+
+		assert.deepStrictEqual(scalePoints(points, 100, 50, 5), [[5, 45], [5, 45]]);
+	});
+
+	test('Shows a placeholder until there is enough history', () => {
+		assert.ok(createSparkline([{ timestamp: 1, value: 1 }], '#000').includes('No history yet'));
+	});
+});
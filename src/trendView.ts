@@ -0,0 +1,126 @@
+import { GardenSnapshot, FileHistoryPoint } from './healthHistory';
+
+export interface ChartPoint {
+  timestamp: number;
+  value: number;
+}
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 160;
+const CHART_PADDING = 24;
+
+// Maps values onto an SVG coordinate space; x is spaced by time, y grows upwards
+export function scalePoints(points: ChartPoint[], width: number, height: number, padding: number): [number, number][] {
+  if (points.length === 0) {
+    return [];
+  }
+
+  const minTime = points[0].timestamp;
+  const timeSpan = points[points.length - 1].timestamp - minTime || 1;
+  const values = points.map(point => point.value);
+  const minValue = Math.min(...values);
+  const valueSpan = Math.max(...values) - minValue || 1;
+
+  return points.map(point => [
+    Math.round((padding + (point.timestamp - minTime) / timeSpan * (width - padding * 2)) * 10) / 10,
+    Math.round((height - padding - (point.value - minValue) / valueSpan * (height - padding * 2)) * 10) / 10
+  ]);
+}
+
+export function createLineChart(title: string, points: ChartPoint[], color: string, format: (value: number) => string): string {
+  if (points.length < 2) {
+    return `<div class="chart"><h3>${title}</h3><p class="empty">Not enough snapshots yet.</p></div>`;
+  }
+
+  const coordinates = scalePoints(points, CHART_WIDTH, CHART_HEIGHT, CHART_PADDING);
+  const polyline = coordinates.map(([x, y]) => `${x},${y}`).join(' ');
+  const markers = coordinates.map(([x, y], index) =>
+    `<circle cx="${x}" cy="${y}" r="3" fill="${color}"><title>${new Date(points[index].timestamp).toLocaleDateString()}: ${format(points[index].value)}</title></circle>`
+  ).join('');
+  const latest = points[points.length - 1];
+
+  return `<div class="chart">
+        <h3>${title} <span class="latest">${format(latest.value)}</span></h3>
+        <svg viewBox="0 0 ${CHART_WIDTH} ${CHART_HEIGHT}" preserveAspectRatio="none">
+            <polyline points="${polyline}" fill="none" stroke="${color}" stroke-width="2"/>
+            ${markers}
+        </svg>
+        <div class="range">${new Date(points[0].timestamp).toLocaleDateString()} – ${new Date(latest.timestamp).toLocaleDateString()}</div>
+    </div>`;
+}
+
+export function createSparkline(points: ChartPoint[], color: string): string {
+  if (points.length < 2) {
+    return '<span class="empty">No history yet</span>';
+  }
+
+  const coordinates = scalePoints(points, 120, 30, 3);
+  const polyline = coordinates.map(([x, y]) => `${x},${y}`).join(' ');
+  return `<svg class="sparkline" width="120" height="30" viewBox="0 0 120 30"><polyline points="${polyline}" fill="none" stroke="${color}" stroke-width="1.5"/></svg>`;
+}
+
+export function createFileHistorySection(history: FileHistoryPoint[]): string {
+  return `
+    <div class="history">
+        <h3>📈 History</h3>
+        <div class="history-row">
+            <span class="history-label">Complexity</span>
+            ${createSparkline(history.map(point => ({ timestamp: point.timestamp, value: point.complexity })), '#FF9800')}
+        </div>
+        <div class="history-row">
+            <span class="history-label">Lines</span>
+            ${createSparkline(history.map(point => ({ timestamp: point.timestamp, value: point.lines })), '#2196F3')}
+        </div>
+    </div>`;
+}
+
+export function createTrendWebview(snapshots: GardenSnapshot[]): string {
+  const series = (value: (snapshot: GardenSnapshot) => number): ChartPoint[] =>
+    snapshots.map(snapshot => ({ timestamp: snapshot.timestamp, value: value(snapshot) }));
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Garden Trends</title>
+    <style>
+        body {
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+            margin: 0;
+            padding: 20px;
+            background: var(--vscode-editor-background);
+            color: var(--vscode-editor-foreground);
+        }
+        .chart {
+            background: var(--vscode-input-background);
+            border: 1px solid var(--vscode-input-border);
+            border-radius: 8px;
+            padding: 16px;
+            margin-bottom: 20px;
+        }
+        .chart h3 {
+            margin-top: 0;
+        }
+        .chart svg {
+            width: 100%;
+            height: 160px;
+        }
+        .latest {
+            float: right;
+            font-weight: normal;
+        }
+        .range, .empty {
+            color: var(--vscode-descriptionForeground);
+            font-size: 12px;
+        }
+    </style>
+</head>
+<body>
+    <h2>📈 Garden Trends (${snapshots.length} snapshots)</h2>
+    ${createLineChart('🌱 Health', series(s => s.total > 0 ? s.healthy / s.total * 100 : 0), '#4CAF50', v => `${Math.round(v)}%`)}
+    ${createLineChart('🚨 Critical Files', series(s => s.critical), '#F44336', v => `${Math.round(v)}`)}
+    ${createLineChart('🌀 Average Complexity', series(s => s.averageComplexity), '#FF9800', v => v.toFixed(1))}
+</body>
+</html>`;
+}
@@ -0,0 +1,74 @@
+import * as vscode from 'vscode';
+import { FileAnalyzer, FileMetrics, ContentMetrics, CrossFileMetrics, HealthThresholds, MetricContribution } from './fileAnalyzer';
+import { GitAnalyzer } from './gitAnalyzer';
+import { FolderConfigs } from './folderConfig';
+import { MetricsCache } from './metricsCache';
+import { ProviderRegistry } from './providerRegistry';
+
+/**
+ * Feeds FileAnalyzer from the VS Code workspace: file system, settings, git history
+ * and the providers other extensions registered.
+ */
+export class WorkspaceAnalyzer {
+  // `crossFile` comes from the workspace-wide duplicate detector and dependency graph;
+  // `folderConfigs` are keyed by URI path and adjust the thresholds and rules per file
+  static async analyzeFile(
+    uri: vscode.Uri,
+    cache?: MetricsCache,
+    registry?: ProviderRegistry,
+    crossFile?: CrossFileMetrics,
+    folderConfigs?: FolderConfigs
+  ): Promise<FileMetrics> {
+    try {
+      const stat = await vscode.workspace.fs.stat(uri);
+      const content = cache?.lookup(uri, stat) ?? await this.analyzeContent(uri, stat, cache);
+      const git = await GitAnalyzer.getMetrics(uri);
+      const settings = folderConfigs?.resolve(uri.path, this.getHealthThresholds());
+      const thresholds = settings?.thresholds ?? this.getHealthThresholds();
+      const create = (contribution?: MetricContribution) => {
+        const metrics = FileAnalyzer.createMetrics(
+          uri.fsPath, stat, content, git, thresholds, contribution, crossFile, settings?.rules
+        );
+        if (settings && settings.sources.length > 0) {
+          metrics.configFiles = settings.sources.map(source => vscode.workspace.asRelativePath(uri.with({ path: source })));
+        }
+        return metrics;
+      };
+
+      const metrics = create();
+      if (!registry?.hasProviders()) {
+        return metrics;
+      }
+
+      // Providers see the built-in metrics; health is then reassessed with their penalties
+      return create(await registry.collect(uri, metrics));
+    } catch (error) {
+      return FileAnalyzer.createFailedMetrics(error);
+    }
+  }
+
+  static getHealthThresholds(): HealthThresholds {
+    const config = vscode.workspace.getConfiguration('verdantView');
+    return config.get('healthThresholds', FileAnalyzer.DEFAULT_THRESHOLDS);
+  }
+
+  private static async analyzeContent(
+    uri: vscode.Uri,
+    stat: vscode.FileStat,
+    cache?: MetricsCache
+  ): Promise<ContentMetrics> {
+    const content = await vscode.workspace.fs.readFile(uri);
+    const hash = FileAnalyzer.hashContent(content);
+
+    // Checkouts touch mtime without changing content, so fall back to the content hash
+    const cached = cache?.lookupByHash(uri, hash);
+    if (cached) {
+      cache!.store(uri, stat, hash, cached);
+      return cached;
+    }
+
+    const metrics = FileAnalyzer.analyzeContent(content, uri.fsPath);
+    cache?.store(uri, stat, hash, metrics);
+    return metrics;
+  }
+}